@@ -0,0 +1,492 @@
+/**
+ * Strands Up Relay Server
+ *
+ * This file is a small WebSocket relay for multiplayer games. One player hosts a board and
+ * gets a room code; others join with the code. The server keeps each room's players and
+ * found words, forwards selections and found words to the rest of the room, and holds a
+ * dropped player's seat for a minute so they can reconnect.
+ *
+ * It has no dependencies beyond Node: run it with `npm run relay` (PORT defaults to 8787).
+ * The message protocol is described in src/types/multiplayer.ts.
+ */
+
+import { createServer } from 'node:http';
+import { createHash, randomBytes, randomInt, randomUUID } from 'node:crypto';
+
+const PORT = Number(process.env.PORT) || 8787;
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE_BYTES = 64 * 1024;
+const HEARTBEAT_MS = 30 * 1000;
+const RECONNECT_GRACE_MS = 60 * 1000;
+
+const ROOM_CODE_LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+const ROOM_CODE_LENGTH = 5;
+const MAX_PLAYERS = 8;
+const MAX_NAME_LENGTH = 20;
+const PLAYER_COLOURS = ['#3182CE', '#DD6B20', '#805AD5', '#D53F8C', '#319795', '#D69E2E', '#E53E3E', '#38A169'];
+
+const OPCODES = {
+    continuation: 0x0,
+    text: 0x1,
+    close: 0x8,
+    ping: 0x9,
+    pong: 0xa,
+};
+
+const CLOSE_CODES = {
+    normal: 1000,
+    protocolError: 1002,
+    unsupportedData: 1003,
+    tooBig: 1009,
+};
+
+/**
+ * Wraps an upgraded socket, decoding incoming frames and encoding outgoing ones (RFC 6455)
+ *
+ * @param socket - The upgraded TCP socket
+ * @param onMessage - Called with the text of each complete message
+ * @param onClose - Called once the socket has closed
+ * @returns Functions to send a JSON message and to close the connection
+ */
+const createConnection = (socket, onMessage, onClose) => {
+    let buffer = Buffer.alloc(0);
+    let fragments = [];
+    let fragmentBytes = 0;
+    let isAlive = true;
+    let isClosed = false;
+
+    const sendFrame = (opcode, payload) => {
+        if (isClosed || socket.destroyed) return;
+        let header;
+        if (payload.length < 126) {
+            header = Buffer.from([0x80 | opcode, payload.length]);
+        } else if (payload.length < 65536) {
+            header = Buffer.alloc(4);
+            header[1] = 126;
+            header.writeUInt16BE(payload.length, 2);
+        } else {
+            header = Buffer.alloc(10);
+            header[1] = 127;
+            header.writeBigUInt64BE(BigInt(payload.length), 2);
+        }
+        header[0] = 0x80 | opcode;
+        socket.write(Buffer.concat([header, payload]));
+    };
+
+    const close = (code = CLOSE_CODES.normal) => {
+        if (isClosed) return;
+        const payload = Buffer.alloc(2);
+        payload.writeUInt16BE(code);
+        sendFrame(OPCODES.close, payload);
+        isClosed = true;
+        socket.end();
+    };
+
+    const handleFrame = (isFinal, opcode, payload) => {
+        switch (opcode) {
+            case OPCODES.text:
+            case OPCODES.continuation:
+                fragments.push(payload);
+                fragmentBytes += payload.length;
+                if (fragmentBytes > MAX_MESSAGE_BYTES) {
+                    close(CLOSE_CODES.tooBig);
+                } else if (isFinal) {
+                    const text = Buffer.concat(fragments).toString('utf8');
+                    fragments = [];
+                    fragmentBytes = 0;
+                    onMessage(text);
+                }
+                break;
+            case OPCODES.ping:
+                sendFrame(OPCODES.pong, payload);
+                break;
+            case OPCODES.pong:
+                isAlive = true;
+                break;
+            case OPCODES.close:
+                close();
+                break;
+            default:
+                // Binary and unknown frames aren't part of the protocol
+                close(CLOSE_CODES.unsupportedData);
+        }
+    };
+
+    const readFrames = () => {
+        while (!isClosed && buffer.length >= 2) {
+            const isFinal = (buffer[0] & 0x80) !== 0;
+            const opcode = buffer[0] & 0x0f;
+            const isMasked = (buffer[1] & 0x80) !== 0;
+            let length = buffer[1] & 0x7f;
+            let offset = 2;
+
+            if (length === 126) {
+                if (buffer.length < 4) return;
+                length = buffer.readUInt16BE(2);
+                offset = 4;
+            } else if (length === 127) {
+                if (buffer.length < 10) return;
+                const longLength = buffer.readBigUInt64BE(2);
+                length = longLength > BigInt(MAX_MESSAGE_BYTES) ? Infinity : Number(longLength);
+                offset = 10;
+            }
+
+            // Browsers always mask what they send
+            if (!isMasked) {
+                close(CLOSE_CODES.protocolError);
+                return;
+            }
+            if (length > MAX_MESSAGE_BYTES) {
+                close(CLOSE_CODES.tooBig);
+                return;
+            }
+            if (buffer.length < offset + 4 + length) return;
+
+            const mask = buffer.subarray(offset, offset + 4);
+            const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + length));
+            for (let i = 0; i < payload.length; i++) {
+                payload[i] ^= mask[i % 4];
+            }
+            buffer = buffer.subarray(offset + 4 + length);
+            handleFrame(isFinal, opcode, payload);
+        }
+    };
+
+    // Drop connections that stop answering pings (e.g. a phone that lost signal)
+    const heartbeat = setInterval(() => {
+        if (!isAlive) {
+            socket.destroy();
+            return;
+        }
+        isAlive = false;
+        sendFrame(OPCODES.ping, Buffer.alloc(0));
+    }, HEARTBEAT_MS);
+
+    socket.on('data', (chunk) => {
+        buffer = Buffer.concat([buffer, chunk]);
+        readFrames();
+    });
+    socket.on('error', () => socket.destroy());
+    socket.on('close', () => {
+        isClosed = true;
+        clearInterval(heartbeat);
+        onClose();
+    });
+
+    return {
+        send: (message) => sendFrame(OPCODES.text, Buffer.from(JSON.stringify(message))),
+        close,
+    };
+};
+
+/**
+ * Open rooms by code. A room lives until its last player has left.
+ */
+const rooms = new Map();
+
+const createRoomCode = () => {
+    let code;
+    do {
+        code = Array.from({ length: ROOM_CODE_LENGTH }, () => ROOM_CODE_LETTERS[randomInt(ROOM_CODE_LETTERS.length)]).join('');
+    } while (rooms.has(code));
+    return code;
+};
+
+const isCells = (value) =>
+    Array.isArray(value) &&
+    value.length <= 100 &&
+    value.every((cell) => Array.isArray(cell) && cell.length === 2 && cell.every(Number.isInteger));
+
+/**
+ * Checks a non-empty, rectangular grid of single letters
+ */
+const isGrid = (value) =>
+    Array.isArray(value) && value.length > 0 &&
+    value.every((row) =>
+        Array.isArray(row) && row.length > 0 && row.length === value[0].length &&
+        row.every((letter) => typeof letter === 'string' && /^[A-Za-z]$/.test(letter))
+    );
+
+/**
+ * Checks a word placement whose path has one in-bounds cell per letter
+ */
+const isPlacement = (value, rows, cols) =>
+    typeof value === 'object' && value !== null &&
+    typeof value.word === 'string' &&
+    isCells(value.path) && value.path.length === value.word.length &&
+    value.path.every(([row, col]) => row >= 0 && row < rows && col >= 0 && col < cols);
+
+/**
+ * Checks that cells are a path of distinct, adjacent cells spelling the word on the grid
+ */
+const spellsWord = (grid, word, cells) =>
+    cells.length === word.length &&
+    new Set(cells.map(([row, col]) => `${row},${col}`)).size === cells.length &&
+    cells.every(([row, col], i) => {
+        if (grid[row]?.[col]?.toUpperCase() !== word[i].toUpperCase()) return false;
+        if (i === 0) return true;
+        const [previousRow, previousCol] = cells[i - 1];
+        return Math.max(Math.abs(row - previousRow), Math.abs(col - previousCol)) === 1;
+    });
+
+/**
+ * Checks a board's shape closely enough that every player can render it (the client
+ * validates the rest before playing it)
+ */
+const isBoard = (value) => {
+    if (typeof value !== 'object' || value === null || !isGrid(value.grid)) return false;
+    const rows = value.grid.length;
+    const cols = value.grid[0].length;
+    const { placementInfo } = value;
+    return Array.isArray(value.words) && value.words.every((word) => typeof word === 'string') &&
+        typeof value.spangram === 'string' &&
+        typeof value.theme === 'string' &&
+        typeof placementInfo === 'object' && placementInfo !== null &&
+        isPlacement(placementInfo.spangram, rows, cols) &&
+        Array.isArray(placementInfo.words) && placementInfo.words.length === value.words.length &&
+        placementInfo.words.every((placement) => isPlacement(placement, rows, cols));
+};
+
+const cleanName = (name) => String(name ?? '').trim().slice(0, MAX_NAME_LENGTH) || 'Player';
+
+const toPublicPlayer = (player) => ({
+    id: player.id,
+    name: player.name,
+    colour: player.colour,
+    connected: player.connection !== null,
+    foundWords: player.foundWords,
+    finishedAtMs: player.finishedAtMs,
+});
+
+const toRoomState = (room) => ({
+    code: room.code,
+    mode: room.mode,
+    board: room.board,
+    hostId: room.hostId,
+    players: [...room.players.values()].map(toPublicPlayer),
+    finds: room.finds,
+});
+
+/**
+ * Sends a message to every connected player in a room, optionally skipping one
+ */
+const broadcast = (room, message, exceptPlayerId = null) => {
+    room.players.forEach((player) => {
+        if (player.id !== exceptPlayerId) player.connection?.send(message);
+    });
+};
+
+const addPlayer = (room, name, connection) => {
+    const usedColours = new Set([...room.players.values()].map(({ colour }) => colour));
+    const player = {
+        id: randomUUID(),
+        name: cleanName(name),
+        colour: PLAYER_COLOURS.find((colour) => !usedColours.has(colour)) ?? PLAYER_COLOURS[0],
+        token: randomBytes(16).toString('hex'),
+        connection,
+        foundWords: [],
+        finishedAtMs: null,
+        dropTimer: null,
+    };
+    room.players.set(player.id, player);
+    return player;
+};
+
+const removePlayer = (room, player) => {
+    clearTimeout(player.dropTimer);
+    room.players.delete(player.id);
+    if (room.players.size === 0) {
+        rooms.delete(room.code);
+        return;
+    }
+    broadcast(room, { type: 'player-left', playerId: player.id });
+};
+
+const welcome = (connection, room, player) =>
+    connection.send({ type: 'welcome', playerId: player.id, token: player.token, room: toRoomState(room) });
+
+const fail = (connection, message, fatal = true) => connection.send({ type: 'error', message, fatal });
+
+/**
+ * Handles host/join/rejoin from a connection that isn't in a room yet
+ *
+ * @returns The player's seat, or null if the connection stays outside a room
+ */
+const enterRoom = (connection, message) => {
+    switch (message.type) {
+        case 'host': {
+            if (message.mode !== 'coop' && message.mode !== 'race') {
+                fail(connection, 'Unknown game mode');
+                return null;
+            }
+            if (!isBoard(message.board)) {
+                fail(connection, 'The board is missing or malformed');
+                return null;
+            }
+            const room = {
+                code: createRoomCode(),
+                mode: message.mode,
+                board: message.board,
+                hostId: '',
+                players: new Map(),
+                finds: [],
+                startedAt: Date.now(),
+            };
+            rooms.set(room.code, room);
+            const player = addPlayer(room, message.name, connection);
+            room.hostId = player.id;
+            welcome(connection, room, player);
+            return { room, player };
+        }
+        case 'join': {
+            const code = String(message.room ?? '').trim().toUpperCase();
+            const room = rooms.get(code);
+            if (!room) {
+                fail(connection, `There is no game with the code ${code}`);
+                return null;
+            }
+            if (room.players.size >= MAX_PLAYERS) {
+                fail(connection, `This game is full (${MAX_PLAYERS} players)`);
+                return null;
+            }
+            const player = addPlayer(room, message.name, connection);
+            welcome(connection, room, player);
+            broadcast(room, { type: 'player-joined', player: toPublicPlayer(player) }, player.id);
+            return { room, player };
+        }
+        case 'rejoin': {
+            const room = rooms.get(String(message.room ?? ''));
+            const player = room?.players.get(message.playerId);
+            if (!room || !player || player.token !== message.token) {
+                fail(connection, 'This game has ended or your seat was given away');
+                return null;
+            }
+            clearTimeout(player.dropTimer);
+            player.dropTimer = null;
+            player.connection?.close();
+            player.connection = connection;
+            welcome(connection, room, player);
+            broadcast(room, { type: 'player-status', playerId: player.id, connected: true }, player.id);
+            return { room, player };
+        }
+        default:
+            fail(connection, 'Host or join a game first', false);
+            return null;
+    }
+};
+
+/**
+ * Records a theme word a player found and tells the room
+ *
+ * @returns Whether the find counted; repeats, words found first by someone else (co-op)
+ * and cells that don't spell the word on the room's grid don't
+ */
+const recordFound = (room, player, message) => {
+    const { board } = room;
+    const themeWords = [board.spangram, ...board.words];
+    const word = String(message.word ?? '');
+    if (!themeWords.includes(word) || player.foundWords.includes(word)) return false;
+    if (!isCells(message.cells) || !spellsWord(board.grid, word, message.cells)) return false;
+
+    // In co-op the first player to find a word gets the credit
+    let find = null;
+    if (room.mode === 'coop') {
+        if (room.finds.some((other) => other.word === word)) return false;
+        find = { word, cells: message.cells, playerId: player.id };
+        room.finds.push(find);
+    }
+
+    player.foundWords.push(word);
+    if (room.mode === 'race' && player.foundWords.length === themeWords.length) {
+        player.finishedAtMs = Date.now() - room.startedAt;
+    }
+    broadcast(room, { type: 'progress', player: toPublicPlayer(player), find });
+    return true;
+};
+
+const handleMessage = (client, connection, text) => {
+    let message;
+    try {
+        message = JSON.parse(text);
+    } catch {
+        fail(connection, 'Messages must be JSON', false);
+        return;
+    }
+    if (typeof message !== 'object' || message === null) return;
+
+    if (!client.seat) {
+        client.seat = enterRoom(connection, message);
+        return;
+    }
+
+    const { room, player } = client.seat;
+    switch (message.type) {
+        case 'select':
+            if (room.mode === 'coop' && isCells(message.cells)) {
+                broadcast(room, { type: 'selection', playerId: player.id, cells: message.cells }, player.id);
+            }
+            break;
+        case 'found': {
+            // Always answered, so the client stops re-sending the find after a reconnect
+            const counted = recordFound(room, player, message);
+            connection.send({ type: 'found-ack', word: String(message.word ?? ''), counted });
+            break;
+        }
+        case 'leave':
+            client.seat = null;
+            removePlayer(room, player);
+            connection.close();
+            break;
+        default:
+            fail(connection, `Unknown message type: ${message.type}`, false);
+    }
+};
+
+/**
+ * Keeps a dropped player's seat for a while so they can rejoin
+ */
+const handleDisconnect = (client, connection) => {
+    if (!client.seat) return;
+    const { room, player } = client.seat;
+    if (player.connection !== connection) return;
+
+    player.connection = null;
+    broadcast(room, { type: 'player-status', playerId: player.id, connected: false });
+    player.dropTimer = setTimeout(() => removePlayer(room, player), RECONNECT_GRACE_MS);
+};
+
+const server = createServer((_request, response) => {
+    response.writeHead(200, { 'Content-Type': 'text/plain' });
+    response.end(`Strands Up relay: ${rooms.size} open game${rooms.size === 1 ? '' : 's'}\n`);
+});
+
+server.on('upgrade', (request, socket) => {
+    const key = request.headers['sec-websocket-key'];
+    if (request.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+        socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+        return;
+    }
+
+    const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+    socket.write([
+        'HTTP/1.1 101 Switching Protocols',
+        'Upgrade: websocket',
+        'Connection: Upgrade',
+        `Sec-WebSocket-Accept: ${accept}`,
+        '',
+        '',
+    ].join('\r\n'));
+    socket.setNoDelay(true);
+
+    const client = { seat: null };
+    const connection = createConnection(
+        socket,
+        (text) => handleMessage(client, connection, text),
+        () => handleDisconnect(client, connection)
+    );
+});
+
+server.listen(PORT, () => {
+    console.log(`Strands Up relay listening on ws://localhost:${PORT}`);
+});
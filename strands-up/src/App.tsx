@@ -2,13 +2,66 @@
  * App Component
  * 
  * This is the root component of the application.
- * It renders the game title and the GameContainer component.
+ * It renders the game title and switches between the daily puzzle, the GameContainer,
+ * multiplayer games and the puzzle editor, opening a shared puzzle directly when the URL contains one.
+ * It also applies the colour theme and offers the theme setting.
  */
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { DailyPuzzle } from './components/DailyPuzzle';
 import { GameContainer } from './components/GameContainer';
+import { MultiplayerGame } from './components/MultiplayerGame';
+import { PuzzleEditor } from './components/PuzzleEditor';
+import { ThemePicker } from './components/ThemePicker';
+import { useTheme } from './hooks/useTheme';
+import { Board } from './types/game';
+import { decodeBoard, getSharedPuzzleCode } from './utils/share';
+import { colours } from './utils/theme';
+
+type View = 'daily' | 'generate' | 'multiplayer' | 'editor';
+
+const VIEW_LABELS: Record<View, string> = {
+    daily: 'Daily Puzzle',
+    generate: 'Generate Game',
+    multiplayer: 'Play Together',
+    editor: 'Create Puzzle',
+};
+
+interface SharedPuzzle {
+    code: string | null;
+    board: Board | null;
+    error: string | null;
+}
+
+/**
+ * Reads and decodes the shared puzzle in the current URL, if any
+ */
+const readSharedPuzzle = (): SharedPuzzle => {
+    const code = getSharedPuzzleCode(window.location);
+    if (!code) return { code: null, board: null, error: null };
+    try {
+        return { code, board: decodeBoard(code), error: null };
+    } catch (err) {
+        return { code, board: null, error: err instanceof Error ? err.message : 'Invalid puzzle link' };
+    }
+};
 
 export const App: React.FC = () => {
+    const [sharedPuzzle, setSharedPuzzle] = useState<SharedPuzzle>(readSharedPuzzle);
+    const [view, setView] = useState<View>(() => (sharedPuzzle.code ? 'generate' : 'daily'));
+    const { preference, setPreference } = useTheme();
+
+    // Pick up puzzle links pasted into the address bar of an open tab
+    useEffect(() => {
+        const handleHashChange = () => {
+            const puzzle = readSharedPuzzle();
+            setSharedPuzzle(puzzle);
+            if (puzzle.code) setView('generate');
+        };
+        window.addEventListener('hashchange', handleHashChange);
+        return () => window.removeEventListener('hashchange', handleHashChange);
+    }, []);
+
     return (
         <div style={{
             maxWidth: '800px',
@@ -16,21 +69,54 @@ export const App: React.FC = () => {
             padding: '20px',
             textAlign: 'center',
         }}>
+            <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+                <ThemePicker preference={preference} onChange={setPreference} />
+            </div>
             <h1 style={{
                 fontSize: '2.5rem',
                 marginBottom: '1rem',
-                color: '#2D3748',
+                color: colours.text,
             }}>
                 Strands Up
             </h1>
             <p style={{
                 fontSize: '1.1rem',
                 marginBottom: '2rem',
-                color: '#4A5568',
+                color: colours.textMuted,
             }}>
                 Find themed words and a special "spangram" - the longest word that ties the theme together.
             </p>
-            <GameContainer />
+            <div role="tablist" style={{ display: 'flex', justifyContent: 'center', gap: '8px', marginBottom: '24px' }}>
+                {(Object.keys(VIEW_LABELS) as View[]).map((option) => (
+                    <button
+                        key={option}
+                        role="tab"
+                        aria-selected={view === option}
+                        onClick={() => setView(option)}
+                        style={{
+                            padding: '6px 16px',
+                            borderRadius: '4px',
+                            border: `1px solid ${colours.accent}`,
+                            backgroundColor: view === option ? colours.accent : 'transparent',
+                            color: view === option ? colours.onAccent : colours.accentText,
+                            cursor: 'pointer',
+                        }}
+                    >
+                        {VIEW_LABELS[option]}
+                    </button>
+                ))}
+            </div>
+            {sharedPuzzle.error && (
+                <div style={{ color: colours.danger, marginBottom: '16px' }}>
+                    {sharedPuzzle.error}
+                </div>
+            )}
+            {view === 'daily' && <DailyPuzzle />}
+            {view === 'generate' && (
+                <GameContainer key={sharedPuzzle.code ?? 'default'} sharedBoard={sharedPuzzle.board} />
+            )}
+            {view === 'multiplayer' && <MultiplayerGame />}
+            {view === 'editor' && <PuzzleEditor />}
         </div>
     );
 };
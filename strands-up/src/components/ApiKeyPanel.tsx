@@ -0,0 +1,201 @@
+/**
+ * ApiKeyPanel Component
+ *
+ * This component collects the API key through a masked input and checks its format as
+ * the player types. The key can be remembered on this device, encrypted with a
+ * passphrase, unlocked again in a later session, or forgotten.
+ */
+
+import React, { useState } from 'react';
+import { ApiKeyManager, checkApiKeyFormat } from '../services/apiKeyManager';
+import { colours } from '../utils/theme';
+
+interface ApiKeyPanelProps {
+    manager: ApiKeyManager;
+    disabled?: boolean;
+}
+
+const inputStyle: React.CSSProperties = {
+    padding: '8px',
+    borderRadius: '4px',
+    border: `1px solid ${colours.border}`,
+};
+
+const linkButtonStyle: React.CSSProperties = {
+    padding: '4px 12px',
+    borderRadius: '4px',
+    border: `1px solid ${colours.accent}`,
+    background: 'none',
+    color: colours.accentText,
+    cursor: 'pointer',
+};
+
+export const ApiKeyPanel: React.FC<ApiKeyPanelProps> = ({ manager, disabled }) => {
+    const [draft, setDraft] = useState(manager.currentKey);
+    const [isRemembered, setIsRemembered] = useState(manager.hasRememberedKey);
+    const [showKey, setShowKey] = useState(false);
+    const [wantsRemember, setWantsRemember] = useState(false);
+    const [passphrase, setPassphrase] = useState('');
+    const [status, setStatus] = useState<{ text: string; isError: boolean } | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+
+    const isLocked = isRemembered && !draft;
+    const formatProblem = draft ? checkApiKeyFormat(draft) : null;
+
+    const handleKeyChange = (key: string) => {
+        setDraft(key);
+        manager.setKey(key);
+        setStatus(null);
+    };
+
+    /**
+     * Runs a remember/unlock step, reporting its outcome below the input
+     */
+    const runWithPassphrase = async (action: () => Promise<void>, success: string) => {
+        setIsBusy(true);
+        try {
+            await action();
+            setPassphrase('');
+            setStatus({ text: success, isError: false });
+        } catch (err) {
+            setStatus({ text: err instanceof Error ? err.message : 'Something went wrong', isError: true });
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleUnlock = (e: React.FormEvent) => {
+        e.preventDefault();
+        runWithPassphrase(async () => {
+            await manager.unlock(passphrase);
+            setDraft(manager.currentKey());
+        }, 'Key unlocked');
+    };
+
+    const handleRemember = (e: React.FormEvent) => {
+        e.preventDefault();
+        runWithPassphrase(async () => {
+            await manager.remember(passphrase);
+            setIsRemembered(true);
+            setWantsRemember(false);
+        }, 'Key saved on this device');
+    };
+
+    const handleForget = () => {
+        manager.forget();
+        setDraft('');
+        setIsRemembered(false);
+        setPassphrase('');
+        setStatus({ text: 'Key removed from this device', isError: false });
+    };
+
+    return (
+        <div className="api-key-panel" style={{ marginBottom: '8px' }}>
+            {isLocked ? (
+                <form onSubmit={handleUnlock} style={{ display: 'inline-flex', gap: '8px', flexWrap: 'wrap' }}>
+                    <label>
+                        Your saved API key is locked. Passphrase:{' '}
+                        <input
+                            type="password"
+                            value={passphrase}
+                            onChange={(e) => setPassphrase(e.target.value)}
+                            autoComplete="current-password"
+                            style={inputStyle}
+                        />
+                    </label>
+                    <button type="submit" disabled={disabled || isBusy || !passphrase} style={linkButtonStyle}>
+                        {isBusy ? 'Unlocking...' : 'Unlock'}
+                    </button>
+                    <button type="button" onClick={handleForget} style={linkButtonStyle}>
+                        Forget key
+                    </button>
+                </form>
+            ) : (
+                <>
+                    <input
+                        type={showKey ? 'text' : 'password'}
+                        value={draft}
+                        onChange={(e) => handleKeyChange(e.target.value)}
+                        placeholder="Enter your API key"
+                        aria-label="API key"
+                        aria-invalid={formatProblem !== null}
+                        autoComplete="off"
+                        spellCheck={false}
+                        disabled={disabled}
+                        style={{ ...inputStyle, marginRight: '8px', width: '260px' }}
+                    />
+                    <button
+                        type="button"
+                        onClick={() => setShowKey((shown) => !shown)}
+                        aria-pressed={showKey}
+                        style={{ ...linkButtonStyle, marginRight: '8px' }}
+                    >
+                        {showKey ? 'Hide' : 'Show'}
+                    </button>
+                    {isRemembered ? (
+                        <button type="button" onClick={handleForget} style={linkButtonStyle}>
+                            Forget saved key
+                        </button>
+                    ) : (
+                        <>
+                            {draft && (
+                                <button
+                                    type="button"
+                                    onClick={() => handleKeyChange('')}
+                                    style={{ ...linkButtonStyle, marginRight: '8px' }}
+                                >
+                                    Clear
+                                </button>
+                            )}
+                            <label>
+                                <input
+                                    type="checkbox"
+                                    checked={wantsRemember}
+                                    onChange={(e) => setWantsRemember(e.target.checked)}
+                                    disabled={!draft || formatProblem !== null}
+                                />{' '}
+                                Remember on this device
+                            </label>
+                        </>
+                    )}
+
+                    {formatProblem && (
+                        <div style={{ color: colours.danger, fontSize: '0.875rem', marginTop: '4px' }}>
+                            {formatProblem}
+                        </div>
+                    )}
+
+                    {wantsRemember && !isRemembered && !formatProblem && (
+                        <form
+                            onSubmit={handleRemember}
+                            style={{ display: 'flex', gap: '8px', justifyContent: 'center', marginTop: '8px' }}
+                        >
+                            <label>
+                                Passphrase to encrypt the key:{' '}
+                                <input
+                                    type="password"
+                                    value={passphrase}
+                                    onChange={(e) => setPassphrase(e.target.value)}
+                                    autoComplete="new-password"
+                                    style={inputStyle}
+                                />
+                            </label>
+                            <button type="submit" disabled={isBusy || !passphrase} style={linkButtonStyle}>
+                                {isBusy ? 'Saving...' : 'Save key'}
+                            </button>
+                        </form>
+                    )}
+                </>
+            )}
+
+            {status && (
+                <div
+                    role={status.isError ? 'alert' : 'status'}
+                    style={{ color: status.isError ? colours.danger : colours.textMuted, fontSize: '0.875rem', marginTop: '4px' }}
+                >
+                    {status.text}
+                </div>
+            )}
+        </div>
+    );
+};
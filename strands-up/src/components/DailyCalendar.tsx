@@ -0,0 +1,122 @@
+/**
+ * DailyCalendar Component
+ *
+ * This component shows the daily puzzle streaks and a month calendar of past days.
+ *
+ * Features:
+ * - Current and longest streak of consecutive solved days
+ * - Month view marking solved and started days
+ * - Selecting any past day to play its puzzle
+ */
+
+import React, { useState } from 'react';
+import { addDays, DailyRecords, getStreaks, toDayNumber } from '../services/daily';
+import { colours } from '../utils/theme';
+
+interface DailyCalendarProps {
+    records: DailyRecords;
+    todayKey: string;
+    selectedDate: string;
+    onSelect: (dateKey: string) => void;
+}
+
+const WEEKDAYS = ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'];
+
+export const DailyCalendar: React.FC<DailyCalendarProps> = ({
+    records,
+    todayKey,
+    selectedDate,
+    onSelect,
+}) => {
+    // The first day of the month being shown, as YYYY-MM-01
+    const [monthStart, setMonthStart] = useState<string>(`${selectedDate.slice(0, 7)}-01`);
+    const streaks = getStreaks(records, todayKey);
+
+    const [year, month] = monthStart.split('-').map(Number);
+    const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    const leadingBlanks = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+    const monthLabel = new Date(Date.UTC(year, month - 1, 1))
+        .toLocaleDateString(undefined, { month: 'long', year: 'numeric', timeZone: 'UTC' });
+
+    const changeMonth = (delta: number) => {
+        const date = new Date(Date.UTC(year, month - 1 + delta, 1));
+        setMonthStart(`${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}-01`);
+    };
+    const canGoForward = monthStart < `${todayKey.slice(0, 7)}-01`;
+
+    return (
+        <div style={{ marginBottom: '24px' }}>
+            <div style={{ display: 'flex', justifyContent: 'center', gap: '24px', marginBottom: '12px' }}>
+                <div>
+                    <div style={{ fontSize: '1.5rem', fontWeight: 'bold' }}>{streaks.current}</div>
+                    <div style={{ fontSize: '0.875rem', color: colours.textMuted }}>Current streak</div>
+                </div>
+                <div>
+                    <div style={{ fontSize: '1.5rem', fontWeight: 'bold' }}>{streaks.max}</div>
+                    <div style={{ fontSize: '0.875rem', color: colours.textMuted }}>Longest streak</div>
+                </div>
+            </div>
+
+            <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', gap: '12px' }}>
+                <button onClick={() => changeMonth(-1)} aria-label="Previous month" style={{ padding: '2px 8px' }}>
+                    ‹
+                </button>
+                <span style={{ fontWeight: 'bold', minWidth: '140px' }}>{monthLabel}</span>
+                <button
+                    onClick={() => changeMonth(1)}
+                    disabled={!canGoForward}
+                    aria-label="Next month"
+                    style={{ padding: '2px 8px' }}
+                >
+                    ›
+                </button>
+            </div>
+
+            <div
+                style={{
+                    display: 'grid',
+                    gridTemplateColumns: 'repeat(7, 36px)',
+                    gap: '4px',
+                    justifyContent: 'center',
+                    marginTop: '8px',
+                }}
+            >
+                {WEEKDAYS.map((weekday) => (
+                    <div key={weekday} style={{ fontSize: '0.75rem', color: colours.textMuted }}>{weekday}</div>
+                ))}
+                {Array.from({ length: leadingBlanks }, (_, i) => <div key={`blank-${i}`} />)}
+                {Array.from({ length: daysInMonth }, (_, i) => {
+                    const dateKey = addDays(monthStart, i);
+                    const record = records[dateKey];
+                    const isFuture = toDayNumber(dateKey) > toDayNumber(todayKey);
+                    const isSolved = record?.completedAt != null;
+                    const status = isSolved ? 'solved' : record ? 'started' : 'not played';
+                    return (
+                        <button
+                            key={dateKey}
+                            onClick={() => onSelect(dateKey)}
+                            disabled={isFuture}
+                            aria-pressed={dateKey === selectedDate}
+                            aria-label={`${dateKey}, ${status}`}
+                            style={{
+                                width: '36px',
+                                height: '36px',
+                                padding: 0,
+                                borderRadius: '50%',
+                                border: dateKey === selectedDate ? `2px solid ${colours.focus}` : '1px solid transparent',
+                                backgroundColor: isSolved
+                                    ? colours.successSurface
+                                    : record ? colours.warningSurface : 'transparent',
+                                fontWeight: dateKey === todayKey ? 'bold' : 'normal',
+                                cursor: isFuture ? 'not-allowed' : 'pointer',
+                                opacity: isFuture ? 0.4 : 1,
+                            }}
+                        >
+                            {i + 1}
+                        </button>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
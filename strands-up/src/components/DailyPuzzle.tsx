@@ -0,0 +1,68 @@
+/**
+ * DailyPuzzle Component
+ *
+ * This component renders the shared puzzle of the day alongside the streak calendar.
+ *
+ * Features:
+ * - The same board for every player on a given calendar date, with no API key needed
+ * - Saved progress, solve time and found order per day
+ * - Playing past days from the calendar
+ */
+
+import React, { useCallback, useMemo, useState } from 'react';
+import { DailyCalendar } from './DailyCalendar';
+import { GameBoard } from './GameBoard';
+import { getDailyBoard, loadDailyRecords, recordDailyProgress, toDateKey } from '../services/daily';
+import { GameProgress } from '../types/game';
+import { formatDuration } from '../utils/format';
+import { colours } from '../utils/theme';
+
+export const DailyPuzzle: React.FC = () => {
+    const [todayKey] = useState<string>(() => toDateKey());
+    const [selectedDate, setSelectedDate] = useState<string>(todayKey);
+    const [records, setRecords] = useState(loadDailyRecords);
+
+    const board = useMemo(() => getDailyBoard(selectedDate), [selectedDate]);
+    const record = records[selectedDate];
+
+    const handleProgressChange = useCallback((progress: GameProgress) => {
+        setRecords(recordDailyProgress(selectedDate, progress, board.words.length + 1));
+    }, [selectedDate, board]);
+
+    const dateLabel = new Date(`${selectedDate}T00:00:00`)
+        .toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
+
+    return (
+        <div className="daily-puzzle">
+            <DailyCalendar
+                records={records}
+                todayKey={todayKey}
+                selectedDate={selectedDate}
+                onSelect={setSelectedDate}
+            />
+
+            <div style={{ marginBottom: '16px' }}>
+                <div style={{ fontWeight: 'bold' }}>
+                    {selectedDate === todayKey ? "Today's puzzle" : 'Past puzzle'}: {dateLabel}
+                </div>
+                {record?.solveTimeMs != null && (
+                    <div style={{ fontSize: '0.875rem', color: colours.success }}>
+                        Solved in {formatDuration(record.solveTimeMs)} · Found order:{' '}
+                        {record.progress.foundWords.join(', ')}
+                    </div>
+                )}
+            </div>
+
+            <GameBoard
+                key={selectedDate}
+                board={board.grid}
+                words={board.words}
+                spangram={board.spangram}
+                placementInfo={board.placementInfo}
+                theme={board.theme}
+                initialProgress={record?.progress}
+                onProgressChange={handleProgressChange}
+            />
+        </div>
+    );
+};
@@ -0,0 +1,72 @@
+/**
+ * DifficultyPanel Component
+ *
+ * This component explains a puzzle's difficulty score: each measured feature with what
+ * was measured, a bar for how hard it makes the puzzle, and how many points it added.
+ * Features are listed from the biggest contributor down.
+ */
+
+import React from 'react';
+import { DIFFICULTY_LABELS } from '../services/generateOptions';
+import { DifficultyRating } from '../utils/difficulty';
+import { colours } from '../utils/theme';
+
+interface DifficultyPanelProps {
+    rating: DifficultyRating;
+}
+
+export const DifficultyPanel: React.FC<DifficultyPanelProps> = ({ rating }) => {
+    const totalWeight = rating.factors.reduce((sum, { weight }) => sum + weight, 0);
+    const contributions = rating.factors
+        .map((factor) => ({ factor, points: Math.round((100 * factor.score * factor.weight) / totalWeight) }))
+        .sort((a, b) => b.points - a.points);
+
+    return (
+        <div
+            className="difficulty-panel"
+            style={{
+                margin: '0 auto',
+                padding: '12px 16px',
+                maxWidth: '420px',
+                border: `1px solid ${colours.borderSubtle}`,
+                borderRadius: '8px',
+                fontSize: '0.875rem',
+                fontWeight: 'normal',
+                textAlign: 'left',
+            }}
+        >
+            <p style={{ margin: '0 0 8px' }}>
+                Rated {DIFFICULTY_LABELS[rating.level].toLowerCase()} ({rating.score}/100), mostly because of{' '}
+                {contributions[0].factor.label.toLowerCase()}.
+            </p>
+            <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+                {contributions.map(({ factor, points }) => (
+                    <li key={factor.id} style={{ marginBottom: '8px' }}>
+                        <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                            <span style={{ fontWeight: 'bold' }}>{factor.label}</span>
+                            <span style={{ color: colours.textMuted }}>+{points}</span>
+                        </div>
+                        <div
+                            role="meter"
+                            aria-label={factor.label}
+                            aria-valuemin={0}
+                            aria-valuemax={100}
+                            aria-valuenow={Math.round(factor.score * 100)}
+                            style={{ height: '6px', borderRadius: '3px', backgroundColor: colours.track, margin: '2px 0' }}
+                        >
+                            <div
+                                style={{
+                                    width: `${Math.round(factor.score * 100)}%`,
+                                    height: '100%',
+                                    borderRadius: '3px',
+                                    backgroundColor: colours.warningBorder,
+                                }}
+                            />
+                        </div>
+                        <span style={{ color: colours.textMuted }}>{factor.detail}</span>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
@@ -2,24 +2,74 @@
  * GameBoard Component
  * 
  * This component renders the interactive word search game board and handles game mechanics.
+ * The rules themselves (what a selection or a traced path means) live in utils/gameEngine.ts,
+ * and the game state lives in a store (utils/gameStore.ts) changed only through events.
  * 
  * Features:
  * - Interactive grid of letters
  * - Word selection by clicking adjacent cells
+ * - Word selection by pressing, dragging across cells and releasing (mouse and touch)
  * - Visual path drawing between selected cells
  * - Word validation against theme words and spangram
- * - Visual feedback for selected and found words
+ * - Visual feedback for selected words; found words keep a bubble path (the spangram in its
+ *   own colour) that animates in when the word is found
  * - Toggleable word list display
+ * - Keyboard play with roving focus and screen-reader announcements; cells also respond to
+ *   the plain clicks that screen readers and switch devices send
+ * - Hints earned by finding non-theme dictionary words
+ * - Progress reporting so games can be saved and resumed
+ * - Solve timer, wrong-guess count and a results panel once every word is found
+ * - Difficulty rating next to the theme, with a breakdown of what drove it
+ * - Cells sized to fit the screen, with pinch zoom on touch screens
+ * - Undo/redo of selections and submitted words, and a move log to replay a finished game
+ * - Multiplayer hooks: other players' selection trails, words found elsewhere, and callbacks
+ *   for the player's own selections and finds
  * 
  * Game Rules:
  * - Players can select letters by clicking adjacent cells
  * - Clicking a non-adjacent cell clears the selection
  * - Clicking the same cell twice checks if the selected letters form a valid word
+ * - Dragging across adjacent cells selects them; dragging back over the previous cell undoes one step
+ * - Releasing a drag checks if the selected letters form a valid word
+ * - Arrow keys move focus, Enter/Space act like a click, Escape clears the selection
+ * - Typing a letter selects an adjacent cell with that letter
  * - Found words are highlighted and their cells become unclickable
+ * - A theme word traced along a different route than the stored one is accepted if the
+ *   remaining words can still fill the remaining cells; the stored placements follow the route
+ * - Valid English words of 4+ letters that aren't theme words count toward hints;
+ *   every three of them earn one hint
+ * - A hint outlines the cells of an unfound theme word; a second hint shows its letter order
+ * - Pinching with two fingers zooms the grid; moving both fingers pans a zoomed grid
+ * - Ctrl/Cmd+Z undoes the last selection change or submitted word, Ctrl/Cmd+Shift+Z or Ctrl+Y
+ *   redoes it; wrong guesses still count after an undo, and spending a hint clears the history
+ * - Words found by other players (co-op) are marked found here too; undo is off in multiplayer
  */
 
-import React, { useState, useEffect, useRef } from 'react';
-import { PlacementInfo } from '../types/game';
+import React, { useState, useEffect, useLayoutEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+import { AnimatePresence, motion, MotionConfig } from 'framer-motion';
+import { DifficultyPanel } from './DifficultyPanel';
+import { GameReplay } from './GameReplay';
+import { ResultsPanel } from './ResultsPanel';
+import { useGameTimer } from '../hooks/useGameTimer';
+import { useGridLayout } from '../hooks/useGridLayout';
+import { GameCommand, GameMove, GameProgress, PlacementInfo, WordPlacement } from '../types/game';
+import { PeerSelection } from '../types/multiplayer';
+import { DIFFICULTY_LABELS } from '../services/generateOptions';
+import { Dictionary, loadDictionary } from '../utils/dictionary';
+import { rateDifficulty } from '../utils/difficulty';
+import { formatDuration } from '../utils/format';
+import { allPlacements, stepDragPath, stepSelection } from '../utils/gameEngine';
+import {
+    createGameStore,
+    createPlayState,
+    findEvent,
+    PlaySnapshot,
+    takeSnapshot,
+} from '../utils/gameStore';
+import { cellKey, isAdjacent } from '../utils/grid';
+import { bubblePath, cellAtPoint, MAX_ZOOM, MIN_ZOOM } from '../utils/gridLayout';
+import { describeMove } from '../utils/replay';
+import { colours } from '../utils/theme';
 
 interface GameBoardProps {
     board: string[][];
@@ -27,270 +77,713 @@ interface GameBoardProps {
     spangram: string;
     placementInfo: PlacementInfo;
     theme: string;
+    initialProgress?: GameProgress;
+    onProgressChange?: (progress: GameProgress) => void;
+    /** Other players' selections, drawn in their colours */
+    peerSelections?: PeerSelection[];
+    /** Words found by other players, marked found on this board too */
+    sharedFinds?: WordPlacement[];
+    onSelectionChange?: (cells: Position[]) => void;
+    /** Called when the player finds a theme word (not for shared finds) */
+    onWordFound?: (placement: WordPlacement) => void;
+    /** Whether undo/redo is offered; off when moves are shared with other players */
+    allowUndo?: boolean;
 }
 
 type Position = [number, number];
 
+interface DragState {
+    pointerId: number;
+    start: Position;
+    path: Position[];
+    moved: boolean;
+    /** The selection when the drag started, restored if it's cancelled */
+    previousSelection: Position[];
+}
+
+interface PinchState {
+    startDistance: number;
+    startZoom: number;
+    /** Midpoint between the two fingers, relative to the scroll container */
+    midpoint: { x: number; y: number };
+}
+
+interface HistoryEntry {
+    command: GameCommand;
+    before: PlaySnapshot;
+    /** Set once the command has been undone, so it can be redone */
+    after?: PlaySnapshot;
+}
+
+interface GameHistory {
+    past: HistoryEntry[];
+    future: HistoryEntry[];
+}
+
+const EMPTY_HISTORY: GameHistory = { past: [], future: [] };
+
+/**
+ * Fraction of a cell (measured from its centre) that counts as entering it during a drag,
+ * so diagonal drags don't clip the corners of neighbouring cells
+ */
+const DRAG_HIT_RATIO = 0.7;
+
+/**
+ * Hides content visually while keeping it available to screen readers
+ */
+const visuallyHidden: React.CSSProperties = {
+    position: 'absolute',
+    width: '1px',
+    height: '1px',
+    padding: 0,
+    margin: '-1px',
+    overflow: 'hidden',
+    clip: 'rect(0, 0, 0, 0)',
+    whiteSpace: 'nowrap',
+    border: 0,
+};
+
+const historyButtonStyle: React.CSSProperties = {
+    padding: '4px 8px',
+    borderRadius: '4px',
+    border: `1px solid ${colours.accent}`,
+    background: 'none',
+    cursor: 'pointer',
+    color: colours.accentText,
+};
+
+const ARROW_KEY_OFFSETS: Record<string, Position> = {
+    ArrowUp: [-1, 0],
+    ArrowDown: [1, 0],
+    ArrowLeft: [0, -1],
+    ArrowRight: [0, 1],
+};
+
 export const GameBoard: React.FC<GameBoardProps> = ({
     board,
     words,
     spangram,
     placementInfo,
     theme,
+    initialProgress,
+    onProgressChange,
+    peerSelections,
+    sharedFinds,
+    onSelectionChange,
+    onWordFound,
+    allowUndo = true,
 }) => {
-    // State management for game interaction
-    const [selectedCells, setSelectedCells] = useState<Position[]>([]);
-    const [foundWords, setFoundWords] = useState<Set<string>>(new Set());
-    const [foundPaths, setFoundPaths] = useState<Set<string>>(new Set());
+    // Game state lives in the store; the component re-renders on every event
+    const [store] = useState(() =>
+        createGameStore(createPlayState({ grid: board, spangram, placementInfo }, initialProgress))
+    );
+    const state = useSyncExternalStore(store.subscribe, store.getState);
+    const {
+        selectedCells,
+        foundWords,
+        foundCells,
+        placements,
+        nonThemeWords,
+        hints,
+        activeHint,
+        hintsUsedAt,
+        wrongGuesses,
+        message,
+    } = state;
     const [showWordList, setShowWordList] = useState<boolean>(true);
-    const [cellPositions, setCellPositions] = useState<Map<string, DOMRect>>(new Map());
+    const containerRef = useRef<HTMLDivElement>(null);
     const gridRef = useRef<HTMLDivElement>(null);
-    const [message, setMessage] = useState<{ text: string, type: 'success' | 'info' | null }>({ text: '', type: null });
+    const dragRef = useRef<DragState | null>(null);
+    const touchPointsRef = useRef<Map<number, { x: number; y: number }>>(new Map());
+    const pinchRef = useRef<PinchState | null>(null);
+    const [zoom, setZoom] = useState<number>(1);
+    const [focusedCell, setFocusedCell] = useState<Position>([0, 0]);
+    const [gridHasFocus, setGridHasFocus] = useState<boolean>(false);
+    const [announcement, setAnnouncement] = useState<{ text: string, id: number }>({ text: '', id: 0 });
+    const [dictionary, setDictionary] = useState<Dictionary | null>(null);
+    const [showDifficulty, setShowDifficulty] = useState<boolean>(false);
+    const [history, setHistory] = useState<GameHistory>(EMPTY_HISTORY);
+    const [moves, setMoves] = useState<GameMove[]>(initialProgress?.moves ?? []);
+    const [showReplay, setShowReplay] = useState<boolean>(false);
+
+    const isComplete = foundWords.size === words.length + 1;
+    const layout = useGridLayout(containerRef, board.length, board[0].length, zoom);
+    const previousLayoutRef = useRef(layout);
+
+    // Rated against the board as generated, once the dictionary has loaded
+    const difficulty = useMemo(
+        () => (dictionary ? rateDifficulty({ grid: board, words, spangram, theme, placementInfo }, dictionary) : null),
+        [dictionary, board, words, spangram, theme, placementInfo]
+    );
+    const timer = useGameTimer(initialProgress?.elapsedMs ?? 0, !isComplete);
+    const { getElapsedMs } = timer;
 
-    // Reset state when a new game is started
+    // Report progress so it can be saved (also when the page is hidden, to keep the play time);
+    // a new game is started by remounting with a new key
     useEffect(() => {
-        setSelectedCells([]);
-        setFoundWords(new Set());
-        setFoundPaths(new Set());
-    }, [board]);
+        onProgressChange?.({
+            foundWords: [...foundWords],
+            foundCells: [...foundCells].map((id) => id.split(',').map(Number) as Position),
+            nonThemeWords,
+            hints,
+            activeHint,
+            hintsUsedAt,
+            wrongGuesses,
+            elapsedMs: getElapsedMs(),
+            ...(placements !== placementInfo && { placementInfo: placements }),
+            moves,
+        });
+    }, [
+        foundWords,
+        foundCells,
+        nonThemeWords,
+        hints,
+        activeHint,
+        hintsUsedAt,
+        wrongGuesses,
+        placements,
+        placementInfo,
+        moves,
+        timer.isPaused,
+        getElapsedMs,
+        onProgressChange,
+    ]);
+
+    useEffect(() => {
+        onSelectionChange?.(selectedCells);
+    }, [selectedCells, onSelectionChange]);
 
-    // Update cell positions when the grid is mounted or resized
+    // Mark words found by other players, following the routes they traced
     useEffect(() => {
-        const updateCellPositions = () => {
-            const newPositions = new Map<string, DOMRect>();
-            if (gridRef.current) {
-                const cells = gridRef.current.getElementsByClassName('grid-cell');
-                Array.from(cells).forEach((cell) => {
-                    const rect = cell.getBoundingClientRect();
-                    const id = cell.getAttribute('data-position');
-                    if (id) {
-                        newPositions.set(id, rect);
-                    }
-                });
+        const { foundWords: alreadyFound } = store.getState();
+        if (sharedFinds?.some(({ word }) => !alreadyFound.has(word))) {
+            store.dispatch({ type: 'SharedWordsFound', finds: sharedFinds });
+        }
+    }, [store, sharedFinds]);
+
+    // Report the player's own finds, and celebrate once the last word is found
+    useEffect(() => {
+        let completionTimeout: ReturnType<typeof setTimeout> | undefined;
+        const unsubscribe = store.subscribe((event) => {
+            if (event.type === 'WordFound' && !event.isShared) {
+                onWordFound?.({ word: event.word, path: event.cells });
+            } else if (event.type === 'GameCompleted') {
+                completionTimeout = setTimeout(() => {
+                    store.dispatch({
+                        type: 'MessageShown',
+                        message: { text: 'Congratulations! You found all the words!', type: 'success' },
+                    });
+                }, 1000);
             }
-            setCellPositions(newPositions);
+        });
+        return () => {
+            unsubscribe();
+            clearTimeout(completionTimeout);
         };
+    }, [store, onWordFound]);
 
-        updateCellPositions();
-        window.addEventListener('resize', updateCellPositions);
-        return () => window.removeEventListener('resize', updateCellPositions);
-    }, [board]);
+    // Load the dictionary used to recognise non-theme words
+    useEffect(() => {
+        let cancelled = false;
+        loadDictionary()
+            .then((loaded) => {
+                if (cancelled) return;
+                store.setDictionary(loaded);
+                setDictionary(loaded);
+            })
+            .catch((error) => console.error('Error loading dictionary:', error));
+        return () => {
+            cancelled = true;
+        };
+    }, [store]);
 
-    /**
-     * Checks if two cells are adjacent (including diagonals)
-     */
-    const isAdjacent = (pos1: Position, pos2: Position): boolean => {
-        const [row1, col1] = pos1;
-        const [row2, col2] = pos2;
-        const rowDiff = Math.abs(row1 - row2);
-        const colDiff = Math.abs(col1 - col2);
-        return rowDiff <= 1 && colDiff <= 1 && !(rowDiff === 0 && colDiff === 0);
-    };
+    // Announce game messages (found words, completion, retries) to screen readers
+    useEffect(() => {
+        if (message.text) {
+            setAnnouncement(({ id }) => ({ text: message.text, id: id + 1 }));
+        }
+    }, [message]);
 
-    /**
-     * Converts a path to a string for Set storage
-     */
-    const pathToString = (path: Position[]): string => {
-        return path.map(([r, c]) => `${r},${c}`).join('|');
-    };
+    // Keep the point between the fingers in place while pinch zooming
+    useLayoutEffect(() => {
+        const previous = previousLayoutRef.current;
+        previousLayoutRef.current = layout;
+        const container = containerRef.current;
+        const pinch = pinchRef.current;
+        if (!container || !pinch || previous.width === layout.width) return;
+
+        const scale = layout.width / previous.width;
+        container.scrollLeft = (container.scrollLeft + pinch.midpoint.x) * scale - pinch.midpoint.x;
+        container.scrollTop = (container.scrollTop + pinch.midpoint.y) * scale - pinch.midpoint.y;
+    }, [layout]);
 
     /**
-     * Gets the center coordinates of a cell for line drawing
+     * Renders a permanent bubble path over each found word, the spangram in its own colour;
+     * a newly found word grows into place, and one removed by undo fades out
      */
-    const getCellCenter = (position: Position): { x: number; y: number } | null => {
-        const rect = cellPositions.get(`${position[0]},${position[1]}`);
-        if (!rect) return null;
-        return {
-            x: rect.left + rect.width / 2,
-            y: rect.top + rect.height / 2
-        };
-    };
+    const renderFoundPaths = () => (
+        <svg
+            width={layout.width}
+            height={layout.height}
+            aria-hidden="true"
+            style={{
+                position: 'absolute',
+                top: 0,
+                left: 0,
+                pointerEvents: 'none',
+            }}
+        >
+            <MotionConfig reducedMotion="user">
+                <AnimatePresence initial={false}>
+                    {allPlacements(state)
+                        .filter(({ word }) => foundWords.has(word))
+                        .map(({ word, path }) => (
+                            <motion.path
+                                key={word}
+                                d={bubblePath(layout, path)}
+                                fill={word === spangram ? colours.spangram : colours.foundWord}
+                                style={{ transformBox: 'fill-box', transformOrigin: 'center' }}
+                                initial={{ opacity: 0, scale: 0.6 }}
+                                animate={{ opacity: 1, scale: [0.6, 1.08, 1] }}
+                                exit={{ opacity: 0, scale: 0.9 }}
+                                transition={{ duration: 0.45, ease: 'easeOut' }}
+                            />
+                        ))}
+                </AnimatePresence>
+            </MotionConfig>
+        </svg>
+    );
 
     /**
      * Renders SVG bubble paths connecting selected cells
      */
     const renderBubblePath = () => {
-        if (selectedCells.length < 2) return null;
-
-        const gridRect = gridRef.current?.getBoundingClientRect();
-        if (!gridRect) return null;
-
-        const points: { x: number; y: number }[] = [];
-        selectedCells.forEach(pos => {
-            const center = getCellCenter(pos);
-            if (center) {
-                points.push({
-                    x: center.x - gridRect.left,
-                    y: center.y - gridRect.top
-                });
-            }
-        });
-
-        if (points.length < 2) return null;
-
-        // Create a path that follows the points with a bubble-like shape
-        const cellSize = 40; // Size of each grid cell
-        const radius = cellSize * 0.36; // Radius of the bubbles around cells (40% smaller than 0.6)
-        const tubeWidth = cellSize * 0.4; // Width of the connecting tube
-
-        let path = '';
-        
-        // Function to create a smooth curve between points
-        const createSmoothCurve = (p1: typeof points[0], p2: typeof points[0]) => {
-            const dx = p2.x - p1.x;
-            const dy = p2.y - p1.y;
-            const distance = Math.sqrt(dx * dx + dy * dy);
-            const normal = { x: -dy / distance, y: dx / distance };
-            
-            const halfTubeWidth = tubeWidth / 2;
-            
-            // Points for the tube sides
-            const topStart = { x: p1.x + normal.x * halfTubeWidth, y: p1.y + normal.y * halfTubeWidth };
-            const bottomStart = { x: p1.x - normal.x * halfTubeWidth, y: p1.y - normal.y * halfTubeWidth };
-            const topEnd = { x: p2.x + normal.x * halfTubeWidth, y: p2.y + normal.y * halfTubeWidth };
-            const bottomEnd = { x: p2.x - normal.x * halfTubeWidth, y: p2.y - normal.y * halfTubeWidth };
-            
-            return `
-                M ${topStart.x} ${topStart.y}
-                L ${topEnd.x} ${topEnd.y}
-                A ${halfTubeWidth} ${halfTubeWidth} 0 0 1 ${bottomEnd.x} ${bottomEnd.y}
-                L ${bottomStart.x} ${bottomStart.y}
-                A ${halfTubeWidth} ${halfTubeWidth} 0 0 1 ${topStart.x} ${topStart.y}
-            `;
-        };
-
-        // Create bubbles around each point
-        points.forEach((point, i) => {
-            path += `
-                M ${point.x} ${point.y - radius}
-                A ${radius} ${radius} 0 1 0 ${point.x} ${point.y + radius}
-                A ${radius} ${radius} 0 1 0 ${point.x} ${point.y - radius}
-            `;
-            
-            // Create connecting tubes between consecutive points
-            if (i < points.length - 1) {
-                path += createSmoothCurve(point, points[i + 1]);
-            }
-        });
+        const path = bubblePath(layout, selectedCells);
+        const peerPaths = (peerSelections ?? [])
+            .map(({ playerId, colour, cells }) => ({ playerId, colour, path: bubblePath(layout, cells) }))
+            .filter(({ path: peerPath }) => peerPath !== '');
+        if (!path && peerPaths.length === 0) return null;
 
         return (
             <svg
+                width={layout.width}
+                height={layout.height}
+                aria-hidden="true"
                 style={{
                     position: 'absolute',
                     top: 0,
                     left: 0,
-                    width: '100%',
-                    height: '100%',
                     pointerEvents: 'none',
                 }}
             >
-                <path
-                    d={path}
-                    fill="rgba(49, 130, 206, 0.2)"  // Semi-transparent blue
-                    strokeWidth="0"  // Remove border
-                />
+                {peerPaths.map(({ playerId, colour, path: peerPath }) => (
+                    <path key={playerId} d={peerPath} fill={colour} fillOpacity={0.2} strokeWidth="0" />
+                ))}
+                {path && (
+                    <path
+                        d={path}
+                        fill={colours.selection}
+                        strokeWidth="0"  // Remove border
+                    />
+                )}
             </svg>
         );
     };
 
+    const showMessage = (text: string) => store.dispatch({ type: 'MessageShown', message: { text, type: 'info' } });
+
+    const setSelection = (cells: Position[]) =>
+        store.dispatch(cells.length > 0 ? { type: 'CellSelected', cells } : { type: 'SelectionCleared' });
+
+    /**
+     * Appends a move to the log, stamped with the current play time
+     */
+    const logMove = (move: GameCommand | { type: 'undo' } | { type: 'redo' } | { type: 'hint'; word: string }) => {
+        setMoves((previous) => [...previous, { ...move, elapsedMs: getElapsedMs() }]);
+    };
+
+    /**
+     * Records a command so it can be undone; call it before applying the command's state changes
+     *
+     * @param command - The command being applied
+     * @param before - Overrides for the state the command started from (e.g. a drag's starting selection)
+     */
+    const recordCommand = (command: GameCommand, before: Partial<PlaySnapshot> = {}) => {
+        const entry: HistoryEntry = { command, before: { ...takeSnapshot(store.getState()), ...before } };
+        setHistory(({ past }) => ({ past: [...past, entry], future: [] }));
+        logMove(command);
+    };
+
+    const canUndo = allowUndo && history.past.length > 0 && !isComplete;
+    const canRedo = allowUndo && history.future.length > 0 && !isComplete;
+
+    /**
+     * Restores the state from before the last command
+     */
+    const undo = () => {
+        if (!canUndo) return;
+        const entry = history.past[history.past.length - 1];
+        setHistory({
+            past: history.past.slice(0, -1),
+            future: [...history.future, { ...entry, after: takeSnapshot(store.getState()) }],
+        });
+        store.dispatch({ type: 'StateRestored', snapshot: entry.before });
+        logMove({ type: 'undo' });
+        showMessage(`Undid: ${describeMove(entry.command, board)}`);
+    };
+
+    /**
+     * Re-applies the last undone command
+     */
+    const redo = () => {
+        if (!canRedo) return;
+        const entry = history.future[history.future.length - 1];
+        setHistory({
+            past: [...history.past, { command: entry.command, before: entry.before }],
+            future: history.future.slice(0, -1),
+        });
+        if (entry.after) store.dispatch({ type: 'StateRestored', snapshot: entry.after });
+        logMove({ type: 'redo' });
+        showMessage(`Redid: ${describeMove(entry.command, board)}`);
+    };
+
+    // Undo/redo shortcuts work anywhere on the page except in text fields
+    const historyShortcutRef = useRef<(e: KeyboardEvent) => void>(() => {});
+    historyShortcutRef.current = (e: KeyboardEvent) => {
+        if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+        if (e.target instanceof HTMLElement && e.target.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+        const key = e.key.toLowerCase();
+        if (key === 'z' && !e.shiftKey) {
+            e.preventDefault();
+            undo();
+        } else if ((key === 'z' && e.shiftKey) || (key === 'y' && e.ctrlKey)) {
+            e.preventDefault();
+            redo();
+        }
+    };
+
+    useEffect(() => {
+        const handleShortcut = (e: KeyboardEvent) => historyShortcutRef.current(e);
+        window.addEventListener('keydown', handleShortcut);
+        return () => window.removeEventListener('keydown', handleShortcut);
+    }, []);
+
     /**
      * Handles cell click events for word selection
      */
     const handleCellClick = (row: number, col: number) => {
-        const clickedPos: Position = [row, col];
-        
-        // Check if clicking the same cell to complete a word
-        if (selectedCells.length > 0) {
-            const lastCell = selectedCells[selectedCells.length - 1];
-            if (lastCell[0] === row && lastCell[1] === col) {
-                checkForWord(selectedCells);
-                return;
+        const step = stepSelection(selectedCells, [row, col], foundCells);
+        if (step.type === 'submit') {
+            checkForWord(selectedCells);
+        } else if (step.type === 'clear') {
+            recordCommand({ type: 'deselect' });
+            setSelection([]);
+        } else {
+            recordCommand({ type: 'select', cells: step.cells });
+            setSelection(step.cells);
+        }
+    };
+
+    /**
+     * Finds the unfound cell under a pointer, optionally ignoring the outer edge of each cell
+     */
+    const getCellAtPoint = (x: number, y: number, hitRatio = 1): Position | null => {
+        const origin = gridRef.current?.getBoundingClientRect();
+        if (!origin) return null;
+
+        const pos = cellAtPoint(layout, x - origin.left, y - origin.top, hitRatio);
+        if (!pos || foundCells.has(cellKey(pos))) return null;
+        return pos;
+    };
+
+    const getPinchDistance = (): number => {
+        const [a, b] = [...touchPointsRef.current.values()];
+        return Math.hypot(a.x - b.x, a.y - b.y);
+    };
+
+    const getPinchMidpoint = (): { x: number; y: number } => {
+        const [a, b] = [...touchPointsRef.current.values()];
+        const origin = containerRef.current?.getBoundingClientRect();
+        return {
+            x: (a.x + b.x) / 2 - (origin?.left ?? 0),
+            y: (a.y + b.y) / 2 - (origin?.top ?? 0),
+        };
+    };
+
+    /**
+     * Tracks touch points, starting a pinch (and dropping any drag) when a second finger lands
+     *
+     * @returns Whether the event belongs to a pinch
+     */
+    const trackTouchDown = (e: React.PointerEvent<HTMLDivElement>): boolean => {
+        if (e.pointerType !== 'touch') return false;
+        touchPointsRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+        if (touchPointsRef.current.size !== 2) return pinchRef.current !== null;
+
+        const drag = dragRef.current;
+        if (drag) {
+            dragRef.current = null;
+            setSelection(drag.previousSelection);
+        }
+        pinchRef.current = { startDistance: getPinchDistance(), startZoom: zoom, midpoint: getPinchMidpoint() };
+        return true;
+    };
+
+    /**
+     * Zooms and pans while two fingers are down
+     *
+     * @returns Whether the event belongs to a pinch
+     */
+    const trackTouchMove = (e: React.PointerEvent<HTMLDivElement>): boolean => {
+        if (!touchPointsRef.current.has(e.pointerId)) return false;
+        touchPointsRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+        const pinch = pinchRef.current;
+        if (!pinch || touchPointsRef.current.size !== 2) return pinch !== null;
+
+        const midpoint = getPinchMidpoint();
+        const container = containerRef.current;
+        if (container) {
+            container.scrollLeft += pinch.midpoint.x - midpoint.x;
+            container.scrollTop += pinch.midpoint.y - midpoint.y;
+        }
+        pinch.midpoint = midpoint;
+
+        const scale = getPinchDistance() / Math.max(1, pinch.startDistance);
+        setZoom(Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, pinch.startZoom * scale)));
+        return true;
+    };
+
+    /**
+     * Forgets a lifted finger; the pinch ends once every finger is lifted
+     *
+     * @returns Whether the event belonged to a pinch
+     */
+    const trackTouchUp = (e: React.PointerEvent<HTMLDivElement>): boolean => {
+        if (!touchPointsRef.current.delete(e.pointerId)) return false;
+        const wasPinching = pinchRef.current !== null;
+        if (touchPointsRef.current.size === 0) pinchRef.current = null;
+        return wasPinching;
+    };
+
+    /**
+     * Starts a drag selection when a cell is pressed
+     */
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (e.pointerType === 'mouse' && e.button !== 0) return;
+        if (trackTouchDown(e)) return;
+        const start = getCellAtPoint(e.clientX, e.clientY);
+        if (!start) return;
+
+        e.preventDefault();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragRef.current = { pointerId: e.pointerId, start, path: [start], moved: false, previousSelection: selectedCells };
+    };
+
+    /**
+     * Extends or backtracks the drag selection as the pointer enters new cells
+     */
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (trackTouchMove(e)) return;
+        const drag = dragRef.current;
+        if (!drag || drag.pointerId !== e.pointerId) return;
+
+        const pos = getCellAtPoint(e.clientX, e.clientY, DRAG_HIT_RATIO);
+        if (!pos) return;
+
+        const path = stepDragPath(drag.path, pos);
+        if (!path) return;
+
+        drag.path = path;
+        drag.moved = true;
+        setSelection(drag.path);
+    };
+
+    /**
+     * Submits a dragged path on release, or treats a press without movement as a click;
+     * a drag that backtracked to its starting cell is dropped like a cancelled one
+     */
+    const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (trackTouchUp(e)) return;
+        const drag = dragRef.current;
+        if (!drag || drag.pointerId !== e.pointerId) return;
+        dragRef.current = null;
+
+        if (drag.moved && drag.path.length === 1) {
+            setSelection(drag.previousSelection);
+        } else if (drag.moved) {
+            recordCommand({ type: 'select', cells: drag.path }, { selectedCells: drag.previousSelection });
+            checkForWord(drag.path);
+        } else {
+            setFocusedCell(drag.start);
+            handleCellClick(drag.start[0], drag.start[1]);
+        }
+    };
+
+    /**
+     * Drops an interrupted drag (e.g. the browser took over the touch)
+     */
+    const handlePointerCancel = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (trackTouchUp(e)) return;
+        const drag = dragRef.current;
+        if (drag?.pointerId !== e.pointerId) return;
+        dragRef.current = null;
+        setSelection(drag.previousSelection);
+    };
+
+    /**
+     * Queues text for the screen-reader live region, repeating identical messages
+     */
+    const announce = (text: string) => {
+        setAnnouncement(({ id }) => ({ text, id: id + 1 }));
+    };
+
+    const describeCell = ([row, col]: Position): string =>
+        `${board[row][col]}, row ${row + 1}, column ${col + 1}`;
+
+    const selectedWordOf = (cells: Position[]): string =>
+        cells.map(([row, col]) => board[row][col]).join('');
+
+    /**
+     * Moves keyboard focus to a cell (roving tabindex)
+     */
+    const moveFocus = (pos: Position) => {
+        setFocusedCell(pos);
+        gridRef.current
+            ?.querySelector<HTMLElement>(`[data-position="${pos[0]},${pos[1]}"]`)
+            ?.focus();
+    };
+
+    /**
+     * Selects a cell adjacent to the selection (or the focused cell) matching a typed letter
+     */
+    const selectByLetter = (letter: string) => {
+        const anchor = selectedCells.length > 0 ? selectedCells[selectedCells.length - 1] : focusedCell;
+        const isCandidate = ([row, col]: Position) =>
+            board[row]?.[col]?.toLowerCase() === letter.toLowerCase() &&
+            !foundCells.has(cellKey([row, col])) &&
+            !selectedCells.some(([r, c]) => r === row && c === col);
+
+        const candidates: Position[] = selectedCells.length === 0 ? [anchor] : [];
+        for (let dr = -1; dr <= 1; dr++) {
+            for (let dc = -1; dc <= 1; dc++) {
+                if (dr !== 0 || dc !== 0) candidates.push([anchor[0] + dr, anchor[1] + dc]);
             }
         }
-        
-        // Clear selection if clicking non-adjacent or found word cell
-        if (
-            selectedCells.length > 0 &&
-            (!isAdjacent(selectedCells[selectedCells.length - 1], clickedPos) ||
-            foundPaths.has(`${row},${col}`))
-        ) {
-            setSelectedCells([]);
+
+        const match = candidates.find(isCandidate);
+        if (!match) {
+            announce(`No available ${letter.toUpperCase()} next to ${describeCell(anchor)}`);
             return;
         }
-        
-        // Add cell to selection
-        setSelectedCells([...selectedCells, clickedPos]);
+
+        moveFocus(match);
+        const newSelection = [...selectedCells, match];
+        recordCommand({ type: 'select', cells: newSelection });
+        setSelection(newSelection);
+        announce(`Selected ${board[match[0]][match[1]]}. Current letters: ${selectedWordOf(newSelection)}`);
     };
 
     /**
-     * Validates the selected cells against valid words
+     * Clicks a cell on behalf of the keyboard or assistive technology, announcing the result
      */
-    const checkForWord = (cells: Position[]) => {
-        const selectedWord = cells
-            .map(([row, col]) => board[row][col])
-            .join('');
-
-        // Check against valid word paths
-        const pathStr = pathToString(cells);
-        const allPlacements = [
-            { word: spangram, path: placementInfo.spangram.path },
-            ...placementInfo.words.map(w => ({ word: w.word, path: w.path }))
-        ];
-
-        const foundPlacement = allPlacements.find(({ word, path }) => {
-            const correctPathStr = pathToString(path);
-            return (
-                word.toLowerCase() === selectedWord.toLowerCase() &&
-                (pathStr === correctPathStr || pathStr === correctPathStr.split('|').reverse().join('|'))
-            );
-        });
+    const activateCell = (pos: Position) => {
+        const [row, col] = pos;
+        if (foundCells.has(cellKey(pos))) {
+            announce(`${describeCell(pos)} is already part of a found word`);
+            return;
+        }
+        const lastCell = selectedCells[selectedCells.length - 1];
+        const submits = lastCell !== undefined && lastCell[0] === row && lastCell[1] === col;
+        handleCellClick(row, col);
+        if (!submits) {
+            const extendsSelection = lastCell === undefined || isAdjacent(lastCell, pos);
+            announce(extendsSelection
+                ? `Selected ${board[row][col]}. Current letters: ${selectedWordOf([...selectedCells, pos])}`
+                : 'Selection cleared');
+        }
+    };
 
-        if (foundPlacement && !foundWords.has(foundPlacement.word)) {
-            // Mark word as found
-            const newFoundWords = new Set(foundWords);
-            newFoundWords.add(foundPlacement.word);
-            setFoundWords(newFoundWords);
-
-            // Mark cells as found
-            const newFoundPaths = new Set(foundPaths);
-            cells.forEach(([r, c]) => newFoundPaths.add(`${r},${c}`));
-            setFoundPaths(newFoundPaths);
-
-            // Show success message
-            setMessage({
-                text: foundPlacement.word === spangram 
-                    ? 'Congratulations! You found the spangram!' 
-                    : `You found "${foundPlacement.word}"!`,
-                type: 'success'
-            });
-
-            // Check for game completion
-            if (newFoundWords.size === allPlacements.length) {
-                setTimeout(() => {
-                    setMessage({
-                        text: 'Congratulations! You found all the words!',
-                        type: 'success'
-                    });
-                }, 1000);
+    /**
+     * Handles keyboard navigation and selection on the grid
+     */
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+        const [row, col] = focusedCell;
+        const offset = ARROW_KEY_OFFSETS[e.key];
+
+        if (offset) {
+            e.preventDefault();
+            const next: Position = [row + offset[0], col + offset[1]];
+            if (board[next[0]]?.[next[1]] !== undefined) {
+                moveFocus(next);
+            }
+        } else if (e.key === 'Home' || e.key === 'End') {
+            e.preventDefault();
+            moveFocus([row, e.key === 'Home' ? 0 : board[row].length - 1]);
+        } else if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            activateCell(focusedCell);
+        } else if (e.key === 'Escape') {
+            e.preventDefault();
+            if (selectedCells.length > 0) {
+                recordCommand({ type: 'deselect' });
+                setSelection([]);
+                announce('Selection cleared');
             }
-        } else if (cells.length > 0) {
-            // Show "try again" message only if cells were selected
-            setMessage({ text: 'Try again!', type: 'info' });
+        } else if (/^[a-z]$/i.test(e.key) && !e.ctrlKey && !e.metaKey && !e.altKey) {
+            e.preventDefault();
+            selectByLetter(e.key);
         }
+    };
+
+    /**
+     * Validates the selected cells against valid words
+     */
+    const checkForWord = (cells: Position[]) => {
+        const before = takeSnapshot(store.getState());
+        const events = store.dispatch({ type: 'WordSubmitted', cells });
+        // An empty selection leads to nothing and isn't worth an undo step
+        if (events.length === 1) return;
 
-        setSelectedCells([]);
+        const found = findEvent(events, 'WordFound');
+        recordCommand({ type: 'submit', cells, word: found?.word ?? null }, { ...before, selectedCells: cells });
     };
 
+    /**
+     * Spends a hint: outlines an unfound theme word, or reveals the letter order of the current one
+     */
+    const spendHint = () => {
+        const revealed = findEvent(store.dispatch({ type: 'HintRequested', roll: Math.random() }), 'HintRevealed');
+        if (!revealed) return;
+
+        // Spending a hint can't be undone, so nothing before it can be either
+        logMove({ type: 'hint', word: revealed.word });
+        setHistory(EMPTY_HISTORY);
+    };
+
+    const hintPath = activeHint
+        ? [placements.spangram, ...placements.words].find(({ word }) => word === activeHint.word)?.path ?? []
+        : [];
+
+    /**
+     * Returns the 1-based letter index of a cell in the hinted word, or 0 if it isn't part of it
+     */
+    const getHintIndex = (row: number, col: number): number =>
+        hintPath.findIndex(([r, c]) => r === row && c === col) + 1;
+
     /**
      * Determines the visual style for a cell based on its state
      */
     const getCellStyle = (row: number, col: number): React.CSSProperties => {
         const isSelected = selectedCells.some(([r, c]) => r === row && c === col);
-        const isFound = foundPaths.has(`${row},${col}`);
+        const isFound = foundCells.has(cellKey([row, col]));
+        const isFocused = gridHasFocus && focusedCell[0] === row && focusedCell[1] === col;
+        const isHinted = getHintIndex(row, col) > 0;
         
         const baseStyle: React.CSSProperties = {
-            width: '40px',
-            height: '40px',
+            position: 'relative',
+            width: `${layout.cellSize}px`,
+            height: `${layout.cellSize}px`,
             display: 'flex',
             alignItems: 'center',
             justifyContent: 'center',
@@ -298,15 +791,12 @@ export const GameBoard: React.FC<GameBoardProps> = ({
             cursor: isFound ? 'not-allowed' : 'pointer',
             transition: 'all 0.2s',
             backgroundColor: 'transparent',
+            outline: isFocused ? `2px solid ${colours.focus}` : 'none',
+            outlineOffset: '1px',
+            border: isHinted ? `2px dashed ${colours.warningBorder}` : '2px solid transparent',
+            boxSizing: 'border-box',
         };
 
-        if (isFound) {
-            return {
-                ...baseStyle,
-                backgroundColor: 'rgba(72, 187, 120, 0.2)',
-            };
-        }
-
         if (isSelected) {
             return {
                 ...baseStyle,
@@ -321,42 +811,154 @@ export const GameBoard: React.FC<GameBoardProps> = ({
         <div style={{ display: 'flex', flexDirection: 'column', gap: '24px', alignItems: 'stretch' }}>
             <div style={{ fontSize: '1.25rem', fontWeight: 'bold', textAlign: 'center' }}>
                 Theme: {theme}
+                <span
+                    aria-label={`Time played ${formatDuration(timer.elapsedMs)}`}
+                    style={{ marginLeft: '12px', fontSize: '0.875rem', fontWeight: 'normal', color: colours.textMuted }}
+                >
+                    ⏱ {formatDuration(timer.elapsedMs)}
+                </span>
+                {difficulty && (
+                    <button
+                        onClick={() => setShowDifficulty(!showDifficulty)}
+                        aria-expanded={showDifficulty}
+                        title="Show what makes this puzzle easy or hard"
+                        style={{
+                            marginLeft: '12px',
+                            padding: '2px 8px',
+                            borderRadius: '12px',
+                            border: `1px solid ${colours.warningBorder}`,
+                            background: 'none',
+                            color: colours.warning,
+                            fontSize: '0.75rem',
+                            cursor: 'pointer',
+                            verticalAlign: 'middle',
+                        }}
+                    >
+                        {DIFFICULTY_LABELS[difficulty.level]} · {difficulty.score}
+                    </button>
+                )}
             </div>
-            <div style={{ position: 'relative' }} ref={gridRef}>
+            {difficulty && showDifficulty && <DifficultyPanel rating={difficulty} />}
+            <div
+                ref={containerRef}
+                style={{ overflow: 'auto', maxHeight: zoom > MIN_ZOOM ? '80vh' : undefined, touchAction: 'none', userSelect: 'none' }}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerCancel}
+            >
                 <div
-                    style={{
-                        display: 'grid',
-                        gridTemplateColumns: `repeat(${board[0].length}, 40px)`,
-                        gap: '4px',
-                        margin: '0 auto',
-                    }}
+                    ref={gridRef}
+                    style={{ position: 'relative', width: `${layout.width}px`, height: `${layout.height}px`, margin: '0 auto' }}
                 >
-                    {board.map((row, rowIndex) =>
-                        row.map((cell, colIndex) => (
-                            <div
-                                key={`${rowIndex}-${colIndex}`}
-                                className="grid-cell"
-                                data-position={`${rowIndex},${colIndex}`}
-                                onClick={() => !foundPaths.has(`${rowIndex},${colIndex}`) && handleCellClick(rowIndex, colIndex)}
-                                style={getCellStyle(rowIndex, colIndex)}
-                            >
-                                <span style={{ fontSize: '1.125rem', fontWeight: 'bold' }}>
-                                    {cell}
-                                </span>
+                    {/* Drawn first so the (positioned) cells and their letters sit on top */}
+                    {renderFoundPaths()}
+                    {renderBubblePath()}
+                    <div
+                        role="grid"
+                        aria-label={`Letter grid, ${board.length} rows by ${board[0].length} columns`}
+                        onKeyDown={handleKeyDown}
+                        onFocus={() => setGridHasFocus(true)}
+                        onBlur={(e) => {
+                            if (!e.currentTarget.contains(e.relatedTarget)) setGridHasFocus(false);
+                        }}
+                        style={{
+                            display: 'grid',
+                            gridTemplateColumns: `repeat(${layout.cols}, ${layout.cellSize}px)`,
+                            gap: `${layout.gap}px`,
+                        }}
+                    >
+                        {board.map((row, rowIndex) => (
+                            <div key={rowIndex} role="row" style={{ display: 'contents' }}>
+                                {row.map((cell, colIndex) => {
+                                    const isFound = foundCells.has(cellKey([rowIndex, colIndex]));
+                                    const isSelected = selectedCells.some(([r, c]) => r === rowIndex && c === colIndex);
+                                    const isFocused = focusedCell[0] === rowIndex && focusedCell[1] === colIndex;
+                                    return (
+                                        <div
+                                            key={`${rowIndex}-${colIndex}`}
+                                            className="grid-cell"
+                                            role="gridcell"
+                                            tabIndex={isFocused ? 0 : -1}
+                                            aria-selected={isSelected}
+                                            aria-disabled={isFound}
+                                            aria-label={`${describeCell([rowIndex, colIndex])}${isFound ? ', found' : ''}${getHintIndex(rowIndex, colIndex) > 0 ? ', hinted' : ''}`}
+                                            data-position={`${rowIndex},${colIndex}`}
+                                            onFocus={() => setFocusedCell([rowIndex, colIndex])}
+                                            onClick={(e) => {
+                                                // Pointer clicks are handled on release; a click without a pointer
+                                                // (detail 0) comes from a screen reader or switch device
+                                                if (e.detail !== 0) return;
+                                                setFocusedCell([rowIndex, colIndex]);
+                                                activateCell([rowIndex, colIndex]);
+                                            }}
+                                            style={getCellStyle(rowIndex, colIndex)}
+                                        >
+                                            <span aria-hidden="true" style={{ fontSize: `${layout.cellSize * 0.45}px`, fontWeight: 'bold', color: colours.cellText }}>
+                                                {cell}
+                                            </span>
+                                            {activeHint?.level === 2 && getHintIndex(rowIndex, colIndex) > 0 && (
+                                                <span
+                                                    aria-hidden="true"
+                                                    style={{ position: 'absolute', top: '1px', left: '3px', fontSize: `${Math.max(8, layout.cellSize * 0.24)}px`, color: colours.hintText }}
+                                                >
+                                                    {getHintIndex(rowIndex, colIndex)}
+                                                </span>
+                                            )}
+                                        </div>
+                                    );
+                                })}
                             </div>
-                        ))
-                    )}
+                        ))}
+                    </div>
                 </div>
-                {renderBubblePath()}
             </div>
+            {zoom > MIN_ZOOM && (
+                <button
+                    onClick={() => setZoom(MIN_ZOOM)}
+                    style={{ ...historyButtonStyle, alignSelf: 'center', marginTop: '-12px' }}
+                >
+                    Reset zoom
+                </button>
+            )}
+
+            <div role="status" aria-live="polite" style={visuallyHidden}>
+                <span key={announcement.id}>{announcement.text}</span>
+            </div>
+
+            {isComplete && (
+                <ResultsPanel
+                    result={{
+                        theme,
+                        foundWords: [...foundWords],
+                        spangram,
+                        hintsUsedAt,
+                        wrongGuesses,
+                        elapsedMs: timer.elapsedMs,
+                    }}
+                />
+            )}
+
+            {isComplete && moves.length > 0 && (
+                <div style={{ textAlign: 'center' }}>
+                    <button
+                        onClick={() => setShowReplay(!showReplay)}
+                        aria-expanded={showReplay}
+                        style={{ ...historyButtonStyle, marginBottom: '12px' }}
+                    >
+                        {showReplay ? 'Hide replay' : 'Replay game'}
+                    </button>
+                    {showReplay && <GameReplay grid={board} moves={moves} />}
+                </div>
+            )}
 
             {message.text && (
                 <div
                     style={{
                         padding: '8px',
                         borderRadius: '4px',
-                        backgroundColor: message.type === 'success' ? 'rgba(72, 187, 120, 0.1)' : 'rgba(49, 130, 206, 0.1)',
-                        color: message.type === 'success' ? '#2F855A' : '#2B6CB0',
+                        backgroundColor: message.type === 'success' ? colours.successSurface : colours.accentSurface,
+                        color: message.type === 'success' ? colours.success : colours.accentText,
                         textAlign: 'center',
                     }}
                 >
@@ -369,6 +971,48 @@ export const GameBoard: React.FC<GameBoardProps> = ({
                     <div style={{ fontWeight: 'bold' }}>
                         Words Found: {foundWords.size}/{words.length + 1}
                     </div>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                        <span style={{ fontSize: '0.875rem', color: colours.textMuted }}>
+                            Non-theme words: {nonThemeWords.length}
+                        </span>
+                        {allowUndo && (
+                            <>
+                                <button
+                                    onClick={undo}
+                                    disabled={!canUndo}
+                                    aria-keyshortcuts="Control+Z Meta+Z"
+                                    title="Undo (Ctrl+Z)"
+                                    style={{ ...historyButtonStyle, cursor: canUndo ? 'pointer' : 'not-allowed', opacity: canUndo ? 1 : 0.6 }}
+                                >
+                                    Undo
+                                </button>
+                                <button
+                                    onClick={redo}
+                                    disabled={!canRedo}
+                                    aria-keyshortcuts="Control+Shift+Z Meta+Shift+Z Control+Y"
+                                    title="Redo (Ctrl+Shift+Z)"
+                                    style={{ ...historyButtonStyle, cursor: canRedo ? 'pointer' : 'not-allowed', opacity: canRedo ? 1 : 0.6 }}
+                                >
+                                    Redo
+                                </button>
+                            </>
+                        )}
+                        <button
+                            onClick={spendHint}
+                            disabled={hints === 0 || foundWords.size === words.length + 1}
+                            style={{
+                                padding: '4px 8px',
+                                borderRadius: '4px',
+                                border: `1px solid ${colours.warningBorder}`,
+                                background: 'none',
+                                cursor: hints === 0 ? 'not-allowed' : 'pointer',
+                                color: colours.warning,
+                                opacity: hints === 0 ? 0.6 : 1,
+                            }}
+                        >
+                            Hint ({hints})
+                        </button>
+                    </div>
                     <button
                         onClick={() => setShowWordList(!showWordList)}
                         style={{
@@ -377,7 +1021,7 @@ export const GameBoard: React.FC<GameBoardProps> = ({
                             border: 'none',
                             background: 'none',
                             cursor: 'pointer',
-                            color: '#4A5568',
+                            color: colours.textMuted,
                         }}
                     >
                         {showWordList ? 'Hide Words' : 'Show Words'}
@@ -391,7 +1035,9 @@ export const GameBoard: React.FC<GameBoardProps> = ({
                                 style={{
                                     padding: '4px 8px',
                                     borderRadius: '4px',
-                                    backgroundColor: foundWords.has(word) ? 'rgba(72, 187, 120, 0.1)' : 'rgba(160, 174, 192, 0.1)',
+                                    backgroundColor: !foundWords.has(word)
+                                        ? colours.neutralSurface
+                                        : word === spangram ? colours.spangram : colours.foundWord,
                                     textDecoration: foundWords.has(word) ? 'line-through' : 'none',
                                     fontSize: '0.875rem',
                                 }}
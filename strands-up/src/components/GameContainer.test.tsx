@@ -0,0 +1,86 @@
+import { act, cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GameContainer } from './GameContainer';
+import { getDailyBoard } from '../services/daily';
+import { PuzzleSource } from '../services/puzzleSource';
+import { Position } from '../types/game';
+
+const { generate } = vi.hoisted(() => ({ generate: vi.fn<PuzzleSource['generate']>() }));
+
+vi.mock('../services/puzzleSource', async (importOriginal) => ({
+    ...await importOriginal<typeof import('../services/puzzleSource')>(),
+    createPuzzleSource: (): PuzzleSource => ({ label: 'Test puzzles', requiresApiKey: false, generate }),
+}));
+
+const board = getDailyBoard('2024-03-01');
+
+const CONGRATULATIONS = 'Congratulations! You found all the words!';
+
+const cellAt = ([row, col]: Position) =>
+    screen.getByRole('grid').querySelector<HTMLElement>(`[data-position="${row},${col}"]`)!;
+
+/**
+ * Starts a game from the (mocked) puzzle source
+ */
+const generateGame = async () => {
+    generate.mockResolvedValue(board);
+    render(<GameContainer />);
+    fireEvent.click(screen.getByRole('button', { name: 'Generate Game' }));
+    await screen.findByRole('grid');
+};
+
+/**
+ * Traces a path with the keyboard: Enter on each cell, then Enter again on the last one
+ */
+const trace = (path: Position[]) => {
+    [...path, path[path.length - 1]].map(cellAt).forEach((cell) => {
+        fireEvent.focus(cell);
+        fireEvent.keyDown(cell, { key: 'Enter' });
+    });
+};
+
+describe('GameContainer', () => {
+    afterEach(() => {
+        cleanup();
+        localStorage.clear();
+        generate.mockReset();
+        vi.useRealTimers();
+    });
+
+    it('plays a generated game through to the end', async () => {
+        await generateGame();
+        expect(generate).toHaveBeenCalledOnce();
+
+        vi.useFakeTimers();
+        const { spangram, words } = board.placementInfo;
+        let foundCount = 0;
+        [spangram, ...words].forEach(({ path }) => {
+            trace(path);
+            foundCount += path.length;
+            expect(screen.getAllByRole('gridcell', { name: /, found$/ })).toHaveLength(foundCount);
+        });
+
+        expect(foundCount).toBe(screen.getAllByRole('gridcell').length);
+        // The message (shown and announced) follows a moment after the last word
+        expect(screen.queryAllByText(CONGRATULATIONS)).toHaveLength(0);
+        act(() => {
+            vi.advanceTimersByTime(1000);
+        });
+        expect(screen.getAllByText(CONGRATULATIONS)).not.toHaveLength(0);
+    });
+
+    it('selects letters with the plain clicks that screen readers and switch devices send', async () => {
+        await generateGame();
+        const { path } = board.placementInfo.spangram;
+
+        // A mouse click (detail 1) is left to the pointer handlers
+        fireEvent.click(cellAt(path[0]), { detail: 1 });
+        expect(cellAt(path[0]).getAttribute('aria-selected')).toBe('false');
+
+        path.forEach((cell) => fireEvent.click(cellAt(cell)));
+        expect(path.every((cell) => cellAt(cell).getAttribute('aria-selected') === 'true')).toBe(true);
+
+        fireEvent.click(cellAt(path[path.length - 1]));
+        expect(screen.getAllByRole('gridcell', { name: /, found$/ })).toHaveLength(path.length);
+    });
+});
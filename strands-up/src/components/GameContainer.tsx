@@ -5,65 +5,294 @@
  * It manages the game state, handles API communication, and renders the game board.
  * 
  * Features:
- * - API key input for game generation
+ * - Choice of puzzle source (backend, puzzle file or mock server)
+ * - Masked API key input, optionally remembered on this device with passphrase encryption
+ * - Puzzle options (seed word, grid size, word limits, difficulty), remembered between sessions
  * - Game board rendering
- * - Error handling for API communication
+ * - Error handling for API communication, with specific messages and recovery actions
+ * - Cancelling a slow request and showing progress while the server wakes up
+ * - Board validation before a generated board is played, and a warning if it has several solutions
+ *   (checked in the background once play has started)
+ * - Saving progress locally, resuming on reload and reopening past games
+ * - Opening shared puzzles and copying share links
  * - Loading state management
  */
 
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ApiKeyPanel } from './ApiKeyPanel';
 import { GameBoard } from './GameBoard';
-import { generateGame } from '../services/api';
-import { Board } from '../types/game';
+import { GenerateOptionsForm } from './GenerateOptionsForm';
+import { PuzzleSourcePicker } from './PuzzleSourcePicker';
+import { SavedGamesList } from './SavedGamesList';
+import { RequestProgress } from '../services/api';
+import { AbortedError, ApiError, RateLimitError } from '../services/apiErrors';
+import { apiKeyManager, checkApiKeyFormat } from '../services/apiKeyManager';
+import {
+    GenerateOptions,
+    loadGenerateOptions,
+    normalizeGenerateOptions,
+    saveGenerateOptions,
+} from '../services/generateOptions';
+import { analyzeInBackground } from '../services/puzzleAnalysis';
+import {
+    createPuzzleSource,
+    loadSourceConfig,
+    PuzzleSourceConfig,
+    saveSourceConfig,
+} from '../services/puzzleSource';
+import {
+    deleteSavedGame,
+    emptyProgress,
+    hashBoard,
+    listSavedGames,
+    loadCurrentGame,
+    loadGame,
+    openGame,
+    saveGame,
+} from '../services/storage';
+import { Board, GameProgress } from '../types/game';
+import { buildShareUrl } from '../utils/share';
+import { PuzzleAnalysis } from '../utils/solver';
+import { BoardValidationError, validateBoard } from '../utils/validation';
+import { colours } from '../utils/theme';
 
-export const GameContainer: React.FC = () => {
-    const [apiKey, setApiKey] = useState<string>('');
-    const [board, setBoard] = useState<Board | null>(null);
-    const [error, setError] = useState<string | null>(null);
+type Recovery = 'retry' | 'use-mock';
+
+interface ErrorNotice {
+    message: string;
+    recoveries?: Recovery[];
+}
+
+/**
+ * Explains a failed generate request and which recovery actions make sense
+ */
+const describeError = (err: unknown): ErrorNotice => {
+    if (!(err instanceof ApiError)) {
+        return { message: err instanceof Error ? err.message : 'Failed to generate game', recoveries: ['retry'] };
+    }
+
+    switch (err.kind) {
+        case 'auth':
+            return { message: `Your API key was rejected (${err.message}). Check the key and try again.` };
+        case 'rate-limit': {
+            const { retryAfterMs } = err as RateLimitError;
+            const wait = retryAfterMs ? ` in ${Math.ceil(retryAfterMs / 1000)}s` : ' in a moment';
+            return { message: `Too many requests. Try again${wait}.`, recoveries: ['retry'] };
+        }
+        case 'server':
+            return { message: `The server failed after several attempts (${err.message}).`, recoveries: ['retry', 'use-mock'] };
+        case 'malformed':
+            return { message: `The server sent a puzzle that couldn't be read (${err.message}).`, recoveries: ['retry', 'use-mock'] };
+        case 'network':
+            return { message: "Couldn't reach the server. Check your connection or the backend URL.", recoveries: ['retry', 'use-mock'] };
+        case 'timeout':
+            return { message: 'The server took too long to respond; it may still be starting up.', recoveries: ['retry'] };
+        default:
+            return { message: err.message, recoveries: ['retry'] };
+    }
+};
+
+const describeProgress = (progress: RequestProgress): string => {
+    switch (progress.state) {
+        case 'connecting':
+            return 'Connecting to the server...';
+        case 'waking-server':
+            return 'Waking up the server. This can take up to a minute...';
+        case 'retrying':
+            return `${progress.error.message}. Retrying in ${Math.ceil(progress.delayMs / 1000)}s ` +
+                `(attempt ${progress.attempt} of ${progress.maxAttempts})...`;
+    }
+};
+
+const RECOVERY_LABELS: Record<Recovery, string> = {
+    'retry': 'Try again',
+    'use-mock': 'Use the offline mock server',
+};
+
+interface GameContainerProps {
+    sharedBoard?: Board | null;
+}
+
+export const GameContainer: React.FC<GameContainerProps> = ({ sharedBoard }) => {
+    const [resumedGame] = useState(() => (sharedBoard ? openGame(sharedBoard) : loadCurrentGame()));
+    const [board, setBoard] = useState<Board | null>(resumedGame?.board ?? null);
+    const [initialProgress, setInitialProgress] = useState<GameProgress>(resumedGame?.progress ?? emptyProgress());
+    const [savedGames, setSavedGames] = useState(listSavedGames);
+    const [error, setError] = useState<ErrorNotice | null>(null);
     const [isLoading, setIsLoading] = useState<boolean>(false);
+    const [progressText, setProgressText] = useState<string | null>(null);
+    const requestRef = useRef<AbortController | null>(null);
+    const [boardErrors, setBoardErrors] = useState<BoardValidationError[]>([]);
+    const [analysis, setAnalysis] = useState<PuzzleAnalysis | null>(null);
+    const [analysisBoard, setAnalysisBoard] = useState<Board | null>(null);
+    const [shareStatus, setShareStatus] = useState<string | null>(null);
+    const [sourceConfig, setSourceConfig] = useState<PuzzleSourceConfig>(loadSourceConfig);
+    const [puzzleFile, setPuzzleFile] = useState<File | null>(null);
+    const [generateOptions, setGenerateOptions] = useState<GenerateOptions>(loadGenerateOptions);
+
+    const puzzleSource = useMemo(() => createPuzzleSource(sourceConfig, puzzleFile), [sourceConfig, puzzleFile]);
+
+    const gameId = useMemo(() => (board ? hashBoard(board) : null), [board]);
+
+    /**
+     * Starts playing a board, restoring its saved progress if it was played before
+     */
+    const openBoard = (newBoard: Board) => {
+        setInitialProgress(openGame(newBoard).progress);
+        setBoard(newBoard);
+        setSavedGames(listSavedGames());
+        setShareStatus(null);
+        setAnalysis(null);
+        setAnalysisBoard(null);
+    };
+
+    const handleOpenSavedGame = (id: string) => {
+        const saved = loadGame(id);
+        if (saved) {
+            setBoardErrors([]);
+            openBoard(saved.board);
+        } else {
+            setError({ message: 'That saved game could not be loaded' });
+        }
+    };
+
+    const handleDeleteSavedGame = (id: string) => {
+        deleteSavedGame(id);
+        if (id === gameId) {
+            setBoard(null);
+            setAnalysis(null);
+            setAnalysisBoard(null);
+        }
+        setSavedGames(listSavedGames());
+    };
+
+    const handleShare = async () => {
+        if (!board) return;
+        try {
+            await navigator.clipboard.writeText(buildShareUrl(board));
+            setShareStatus('Link copied to clipboard');
+        } catch (err) {
+            setShareStatus(err instanceof Error ? err.message : 'Could not copy the link');
+        }
+    };
+
+    const handleProgressChange = useCallback((progress: GameProgress) => {
+        if (board) {
+            saveGame(board, progress);
+            setSavedGames(listSavedGames());
+        }
+    }, [board]);
+
+    const handleSourceChange = (config: PuzzleSourceConfig) => {
+        setSourceConfig(config);
+        saveSourceConfig(config);
+        setError(null);
+    };
+
+    const handleGenerateOptionsChange = (options: GenerateOptions) => {
+        setGenerateOptions(options);
+        saveGenerateOptions(options);
+    };
+
+    // Cancel any request still running when the container goes away
+    useEffect(() => () => requestRef.current?.abort(), []);
+
+    // Look for alternate solutions of a newly generated board without holding up play
+    useEffect(() => {
+        if (!analysisBoard) return;
+        return analyzeInBackground(analysisBoard, setAnalysis);
+    }, [analysisBoard]);
+
+    const handleCancel = () => {
+        requestRef.current?.abort();
+    };
+
+    const handleRecovery = (recovery: Recovery) => {
+        if (recovery === 'use-mock') {
+            handleSourceChange({ ...sourceConfig, kind: 'mock' });
+        } else {
+            handleGenerateGame();
+        }
+    };
 
     const handleGenerateGame = async () => {
-        if (!apiKey) {
-            setError('Please enter your API key');
+        if (!puzzleSource) {
+            setError({ message: 'Please choose a puzzle file' });
+            return;
+        }
+        const keyProblem = puzzleSource.requiresApiKey ? checkApiKeyFormat(apiKeyManager.currentKey()) : null;
+        if (keyProblem) {
+            setError({ message: keyProblem });
             return;
         }
 
+        requestRef.current?.abort();
+        const controller = new AbortController();
+        requestRef.current = controller;
+
         setIsLoading(true);
         setError(null);
+        setBoardErrors([]);
+        setProgressText(null);
 
         try {
-            const newBoard = await generateGame(apiKey);
-            setBoard(newBoard);
+            const newBoard = await puzzleSource.generate({
+                keys: apiKeyManager,
+                options: normalizeGenerateOptions(generateOptions),
+                signal: controller.signal,
+                onProgress: (progress) => {
+                    if (!controller.signal.aborted) setProgressText(describeProgress(progress));
+                },
+            });
+            const { valid, errors } = validateBoard(newBoard);
+            if (valid) {
+                openBoard(newBoard);
+                setAnalysisBoard(newBoard);
+            } else {
+                setBoard(null);
+                setBoardErrors(errors);
+            }
         } catch (err) {
-            setError(err instanceof Error ? err.message : 'Failed to generate game');
+            if (!(err instanceof AbortedError)) {
+                setError(describeError(err));
+            }
         } finally {
-            setIsLoading(false);
+            // A newer request may have replaced this one
+            if (requestRef.current === controller) {
+                requestRef.current = null;
+                setIsLoading(false);
+                setProgressText(null);
+            }
         }
     };
 
     return (
         <div className="game-container">
-            <div className="api-key-input">
-                <input
-                    type="text"
-                    value={apiKey}
-                    onChange={(e) => setApiKey(e.target.value)}
-                    placeholder="Enter your API key"
-                    style={{
-                        padding: '8px',
-                        marginRight: '8px',
-                        borderRadius: '4px',
-                        border: '1px solid #ccc',
-                    }}
+            <PuzzleSourcePicker
+                config={sourceConfig}
+                onChange={handleSourceChange}
+                file={puzzleFile}
+                onFileChange={setPuzzleFile}
+            />
+            {sourceConfig.kind !== 'file' && (
+                <GenerateOptionsForm
+                    options={generateOptions}
+                    onChange={handleGenerateOptionsChange}
+                    disabled={isLoading}
                 />
+            )}
+            <div className="api-key-input">
+                {puzzleSource?.requiresApiKey && (
+                    <ApiKeyPanel manager={apiKeyManager} disabled={isLoading} />
+                )}
                 <button
                     onClick={handleGenerateGame}
                     disabled={isLoading}
                     style={{
                         padding: '8px 16px',
                         borderRadius: '4px',
-                        backgroundColor: '#4299E1',
-                        color: 'white',
+                        backgroundColor: colours.accent,
+                        color: colours.onAccent,
                         border: 'none',
                         cursor: isLoading ? 'not-allowed' : 'pointer',
                         opacity: isLoading ? 0.7 : 1,
@@ -71,21 +300,111 @@ export const GameContainer: React.FC = () => {
                 >
                     {isLoading ? 'Generating...' : 'Generate Game'}
                 </button>
+                {isLoading && (
+                    <button
+                        onClick={handleCancel}
+                        style={{
+                            padding: '8px 16px',
+                            marginLeft: '8px',
+                            borderRadius: '4px',
+                            border: `1px solid ${colours.accent}`,
+                            background: 'none',
+                            color: colours.accentText,
+                            cursor: 'pointer',
+                        }}
+                    >
+                        Cancel
+                    </button>
+                )}
             </div>
 
+            {isLoading && progressText && (
+                <div role="status" style={{ marginTop: '8px', color: colours.textMuted }}>
+                    {progressText}
+                </div>
+            )}
+
             {error && (
-                <div style={{ color: 'red', marginTop: '8px' }}>
-                    {error}
+                <div role="alert" style={{ color: colours.danger, marginTop: '8px' }}>
+                    {error.message}
+                    {error.recoveries?.map((recovery) => (
+                        <button
+                            key={recovery}
+                            onClick={() => handleRecovery(recovery)}
+                            style={{
+                                marginLeft: '8px',
+                                padding: '2px 8px',
+                                borderRadius: '4px',
+                                border: '1px solid currentColor',
+                                background: 'none',
+                                color: 'inherit',
+                                cursor: 'pointer',
+                            }}
+                        >
+                            {RECOVERY_LABELS[recovery]}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {boardErrors.length > 0 && (
+                <div style={{ color: colours.danger, marginTop: '8px', textAlign: 'left' }}>
+                    <p>The generated puzzle is broken and can't be played:</p>
+                    <ul>
+                        {boardErrors.map((boardError, i) => (
+                            <li key={i}>{boardError.message}</li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {analysis?.isAmbiguous && (
+                <div role="status" style={{ color: colours.warning, marginTop: '8px' }}>
+                    This puzzle has {analysis.isComplete ? analysis.tilingCount : `at least ${analysis.tilingCount}`} solutions:{' '}
+                    {analysis.alternateWords.join(', ')} can also be traced along other paths.
+                </div>
+            )}
+
+            <SavedGamesList
+                games={savedGames}
+                currentId={gameId}
+                onOpen={handleOpenSavedGame}
+                onDelete={handleDeleteSavedGame}
+            />
+
+            {board && (
+                <div style={{ margin: '16px 0' }}>
+                    <button
+                        onClick={handleShare}
+                        style={{
+                            padding: '4px 12px',
+                            borderRadius: '4px',
+                            border: `1px solid ${colours.accent}`,
+                            background: 'none',
+                            color: colours.accentText,
+                            cursor: 'pointer',
+                        }}
+                    >
+                        Copy share link
+                    </button>
+                    {shareStatus && (
+                        <span role="status" style={{ marginLeft: '8px', fontSize: '0.875rem', color: colours.textMuted }}>
+                            {shareStatus}
+                        </span>
+                    )}
                 </div>
             )}
 
             {board && (
                 <GameBoard
+                    key={gameId}
                     board={board.grid}
                     words={board.words}
                     spangram={board.spangram}
                     placementInfo={board.placementInfo}
                     theme={board.theme}
+                    initialProgress={initialProgress}
+                    onProgressChange={handleProgressChange}
                 />
             )}
         </div>
@@ -0,0 +1,116 @@
+/**
+ * GameReplay Component
+ *
+ * This component replays a finished game from its move log, one move at a time,
+ * showing the selection and the found words on a small copy of the grid.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { GameMove } from '../types/game';
+import { formatDuration } from '../utils/format';
+import { buildReplayFrames, describeMove } from '../utils/replay';
+import { colours } from '../utils/theme';
+
+interface GameReplayProps {
+    grid: string[][];
+    moves: GameMove[];
+}
+
+const PLAY_INTERVAL_MS = 600;
+const CELL_SIZE = 28;
+
+const buttonStyle: React.CSSProperties = {
+    padding: '4px 10px',
+    borderRadius: '4px',
+    border: `1px solid ${colours.accent}`,
+    background: 'none',
+    color: colours.accentText,
+    cursor: 'pointer',
+};
+
+export const GameReplay: React.FC<GameReplayProps> = ({ grid, moves }) => {
+    const frames = useMemo(() => buildReplayFrames(moves), [moves]);
+    const [frameIndex, setFrameIndex] = useState(0);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const lastIndex = frames.length - 1;
+    const frame = frames[Math.min(frameIndex, lastIndex)];
+
+    // Advance while playing, stopping at the last move
+    useEffect(() => {
+        if (!isPlaying) return;
+        if (frameIndex >= lastIndex) {
+            setIsPlaying(false);
+            return;
+        }
+        const timeout = setTimeout(() => setFrameIndex(frameIndex + 1), PLAY_INTERVAL_MS);
+        return () => clearTimeout(timeout);
+    }, [isPlaying, frameIndex, lastIndex]);
+
+    const step = (index: number) => {
+        setIsPlaying(false);
+        setFrameIndex(Math.max(0, Math.min(lastIndex, index)));
+    };
+
+    const hasCell = (cells: [number, number][], row: number, col: number) =>
+        cells.some(([r, c]) => r === row && c === col);
+
+    return (
+        <div className="game-replay" style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '8px' }}>
+            <div
+                aria-hidden="true"
+                style={{ display: 'grid', gridTemplateColumns: `repeat(${grid[0].length}, ${CELL_SIZE}px)`, gap: '2px' }}
+            >
+                {grid.map((row, r) =>
+                    row.map((letter, c) => {
+                        const isSelected = hasCell(frame.selectedCells, r, c);
+                        const isFound = hasCell(frame.foundCells, r, c);
+                        return (
+                            <div
+                                key={`${r}-${c}`}
+                                style={{
+                                    width: `${CELL_SIZE}px`,
+                                    height: `${CELL_SIZE}px`,
+                                    display: 'flex',
+                                    alignItems: 'center',
+                                    justifyContent: 'center',
+                                    borderRadius: '4px',
+                                    fontSize: '0.875rem',
+                                    fontWeight: 'bold',
+                                    color: colours.cellText,
+                                    backgroundColor: isSelected
+                                        ? colours.selection
+                                        : isFound ? colours.foundWord : 'transparent',
+                                }}
+                            >
+                                {letter}
+                            </div>
+                        );
+                    })
+                )}
+            </div>
+
+            <div role="status" style={{ fontSize: '0.875rem', color: colours.textMuted }}>
+                {frame.move
+                    ? `Move ${frameIndex} of ${lastIndex} (${formatDuration(frame.move.elapsedMs)}): ${describeMove(frame.move, grid)}`
+                    : `Start · ${lastIndex} moves`}
+                {' · '}{frame.foundWords.length} found
+            </div>
+
+            <div style={{ display: 'flex', gap: '6px' }}>
+                <button onClick={() => step(0)} disabled={frameIndex === 0} aria-label="First move" style={buttonStyle}>⏮</button>
+                <button onClick={() => step(frameIndex - 1)} disabled={frameIndex === 0} aria-label="Previous move" style={buttonStyle}>◀</button>
+                <button
+                    onClick={() => {
+                        if (frameIndex >= lastIndex) setFrameIndex(0);
+                        setIsPlaying(!isPlaying);
+                    }}
+                    style={buttonStyle}
+                >
+                    {isPlaying ? 'Pause' : 'Play'}
+                </button>
+                <button onClick={() => step(frameIndex + 1)} disabled={frameIndex >= lastIndex} aria-label="Next move" style={buttonStyle}>▶</button>
+                <button onClick={() => step(lastIndex)} disabled={frameIndex >= lastIndex} aria-label="Last move" style={buttonStyle}>⏭</button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,163 @@
+/**
+ * GenerateOptionsForm Component
+ *
+ * This component lets the player shape the next generated puzzle: a seed word or
+ * theme hint, the grid size, how many words and how long they are, and the difficulty.
+ * Numbers outside their limits are clamped when the options are normalized.
+ */
+
+import React from 'react';
+import {
+    DEFAULT_GENERATE_OPTIONS,
+    DIFFICULTY_LABELS,
+    GENERATE_OPTION_LIMITS,
+    GenerateOptions,
+} from '../services/generateOptions';
+import { Difficulty } from '../types/game';
+import { colours } from '../utils/theme';
+
+interface GenerateOptionsFormProps {
+    options: GenerateOptions;
+    onChange: (options: GenerateOptions) => void;
+    disabled?: boolean;
+}
+
+const inputStyle: React.CSSProperties = {
+    padding: '6px',
+    borderRadius: '4px',
+    border: `1px solid ${colours.border}`,
+};
+
+const numberStyle: React.CSSProperties = { ...inputStyle, width: '56px' };
+
+export const GenerateOptionsForm: React.FC<GenerateOptionsFormProps> = ({ options, onChange, disabled }) => {
+    const { rows, cols, words, wordLength } = GENERATE_OPTION_LIMITS;
+
+    const setNumber = (key: keyof GenerateOptions) => (e: React.ChangeEvent<HTMLInputElement>) => {
+        const value = e.target.valueAsNumber;
+        if (!Number.isNaN(value)) {
+            onChange({ ...options, [key]: value });
+        }
+    };
+
+    return (
+        <details className="generate-options" style={{ marginBottom: '12px' }}>
+            <summary style={{ cursor: 'pointer' }}>Puzzle options</summary>
+            <fieldset
+                disabled={disabled}
+                style={{
+                    display: 'flex',
+                    flexWrap: 'wrap',
+                    gap: '12px',
+                    justifyContent: 'center',
+                    marginTop: '8px',
+                    border: 'none',
+                }}
+            >
+                <label>
+                    Seed word or theme:{' '}
+                    <input
+                        type="text"
+                        value={options.seedWord}
+                        onChange={(e) => onChange({ ...options, seedWord: e.target.value })}
+                        placeholder="Anything"
+                        maxLength={40}
+                        style={inputStyle}
+                    />
+                </label>
+                <label>
+                    Grid:{' '}
+                    <input
+                        type="number"
+                        aria-label="Rows"
+                        value={options.rows}
+                        min={rows.min}
+                        max={rows.max}
+                        onChange={setNumber('rows')}
+                        style={numberStyle}
+                    />
+                    {' x '}
+                    <input
+                        type="number"
+                        aria-label="Columns"
+                        value={options.cols}
+                        min={cols.min}
+                        max={cols.max}
+                        onChange={setNumber('cols')}
+                        style={numberStyle}
+                    />
+                </label>
+                <label>
+                    Words:{' '}
+                    <input
+                        type="number"
+                        aria-label="Fewest words"
+                        value={options.minWords}
+                        min={words.min}
+                        max={words.max}
+                        onChange={setNumber('minWords')}
+                        style={numberStyle}
+                    />
+                    {' to '}
+                    <input
+                        type="number"
+                        aria-label="Most words"
+                        value={options.maxWords}
+                        min={words.min}
+                        max={words.max}
+                        onChange={setNumber('maxWords')}
+                        style={numberStyle}
+                    />
+                </label>
+                <label>
+                    Word length:{' '}
+                    <input
+                        type="number"
+                        aria-label="Shortest word"
+                        value={options.minWordLength}
+                        min={wordLength.min}
+                        max={wordLength.max}
+                        onChange={setNumber('minWordLength')}
+                        style={numberStyle}
+                    />
+                    {' to '}
+                    <input
+                        type="number"
+                        aria-label="Longest word"
+                        value={options.maxWordLength}
+                        min={wordLength.min}
+                        max={wordLength.max}
+                        onChange={setNumber('maxWordLength')}
+                        style={numberStyle}
+                    />
+                </label>
+                <label>
+                    Difficulty:{' '}
+                    <select
+                        value={options.difficulty}
+                        onChange={(e) => onChange({ ...options, difficulty: e.target.value as Difficulty })}
+                        style={inputStyle}
+                    >
+                        {(Object.keys(DIFFICULTY_LABELS) as Difficulty[]).map((difficulty) => (
+                            <option key={difficulty} value={difficulty}>{DIFFICULTY_LABELS[difficulty]}</option>
+                        ))}
+                    </select>
+                </label>
+                <button
+                    type="button"
+                    onClick={() => onChange(DEFAULT_GENERATE_OPTIONS)}
+                    style={{
+                        padding: '4px 12px',
+                        borderRadius: '4px',
+                        border: `1px solid ${colours.accent}`,
+                        background: 'none',
+                        color: colours.accentText,
+                        cursor: 'pointer',
+                    }}
+                >
+                    Reset
+                </button>
+            </fieldset>
+        </details>
+    );
+};
@@ -0,0 +1,383 @@
+/**
+ * MultiplayerGame Component
+ *
+ * This component lets several players solve the same board through the relay server.
+ *
+ * Features:
+ * - Host today's puzzle or a shared puzzle link and get a room code; others join with the code
+ * - Co-op: one shared board, with every player's selection trail in their colour
+ * - Race: everyone solves their own copy of the board; the standings show who finished first
+ * - Connection status, with automatic reconnecting to the same seat after a dropped connection
+ * - A room whose board can't be played is left with an error instead of being rendered
+ */
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { GameBoard } from './GameBoard';
+import { getDailyBoard, toDateKey } from '../services/daily';
+import {
+    applyServerMessage,
+    connectToRelay,
+    decodeRoomBoard,
+    ConnectionStatus,
+    DEFAULT_RELAY_URL,
+    MultiplayerSession,
+    OpeningMessage,
+} from '../services/multiplayer';
+import { Board, Position, WordPlacement } from '../types/game';
+import { MultiplayerMode, PeerSelection, RoomPlayer, RoomState } from '../types/multiplayer';
+import { formatDuration } from '../utils/format';
+import { decodeBoard, getSharedPuzzleCode } from '../utils/share';
+import { colours } from '../utils/theme';
+
+type BoardChoice = 'daily' | 'link';
+
+const MODE_LABELS: Record<MultiplayerMode, string> = {
+    coop: 'Co-op',
+    race: 'Race',
+};
+
+const STATUS_LABELS: Record<ConnectionStatus, string> = {
+    connecting: 'Connecting…',
+    connected: 'Connected',
+    reconnecting: 'Reconnecting…',
+    closed: 'Disconnected',
+};
+
+const inputStyle: React.CSSProperties = {
+    padding: '6px',
+    borderRadius: '4px',
+    border: `1px solid ${colours.border}`,
+};
+
+const buttonStyle: React.CSSProperties = {
+    padding: '6px 16px',
+    borderRadius: '4px',
+    border: `1px solid ${colours.accent}`,
+    backgroundColor: colours.accent,
+    color: colours.onAccent,
+    cursor: 'pointer',
+};
+
+const sectionStyle: React.CSSProperties = {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+    alignItems: 'flex-start',
+    padding: '12px 16px',
+    border: `1px solid ${colours.borderSubtle}`,
+    borderRadius: '8px',
+    minWidth: '240px',
+};
+
+/**
+ * Reads a board from a puzzle link or a bare puzzle code
+ */
+const boardFromLink = (text: string): Board => {
+    const trimmed = text.trim();
+    let code = trimmed;
+    try {
+        code = getSharedPuzzleCode(new URL(trimmed)) ?? trimmed;
+    } catch {
+        // Not a URL: treat the text as the code itself
+    }
+    return decodeBoard(code);
+};
+
+/**
+ * Orders players for the standings: finishers by time, then by words found
+ */
+const compareStandings = (a: RoomPlayer, b: RoomPlayer): number => {
+    if (a.finishedAtMs !== null && b.finishedAtMs !== null) return a.finishedAtMs - b.finishedAtMs;
+    if (a.finishedAtMs !== null || b.finishedAtMs !== null) return a.finishedAtMs !== null ? -1 : 1;
+    return b.foundWords.length - a.foundWords.length;
+};
+
+export const MultiplayerGame: React.FC = () => {
+    const [name, setName] = useState<string>('');
+    const [serverUrl, setServerUrl] = useState<string>(DEFAULT_RELAY_URL);
+    const [mode, setMode] = useState<MultiplayerMode>('coop');
+    const [boardChoice, setBoardChoice] = useState<BoardChoice>('daily');
+    const [puzzleLink, setPuzzleLink] = useState<string>('');
+    const [joinCode, setJoinCode] = useState<string>('');
+    const [status, setStatus] = useState<ConnectionStatus>('closed');
+    const [error, setError] = useState<string | null>(null);
+    const [room, setRoom] = useState<RoomState | null>(null);
+    const [playerId, setPlayerId] = useState<string | null>(null);
+    const [peerCells, setPeerCells] = useState<Record<string, Position[]>>({});
+    const sessionRef = useRef<MultiplayerSession | null>(null);
+
+    // Give up the seat when leaving the view
+    useEffect(() => () => sessionRef.current?.leave(), []);
+
+    const clearPeerCells = (id: string) => {
+        setPeerCells((current) => Object.fromEntries(Object.entries(current).filter(([key]) => key !== id)));
+    };
+
+    /**
+     * Connects to the relay and follows the room's messages
+     */
+    const start = (opening: OpeningMessage) => {
+        sessionRef.current?.leave();
+        setError(null);
+        setRoom(null);
+        setPeerCells({});
+        sessionRef.current = connectToRelay(opening, {
+            onMessage: (received) => {
+                let message = received;
+                if (message.type === 'welcome') {
+                    try {
+                        message = { ...message, room: { ...message.room, board: decodeRoomBoard(message.room.board) } };
+                    } catch (err) {
+                        setError(`This room's puzzle can't be played: ${err instanceof Error ? err.message : 'invalid board'}`);
+                        sessionRef.current?.leave();
+                        return;
+                    }
+                }
+                setRoom((current) => applyServerMessage(current, message));
+                switch (message.type) {
+                    case 'welcome':
+                        setPlayerId(message.playerId);
+                        break;
+                    case 'selection':
+                        setPeerCells((current) => ({ ...current, [message.playerId]: message.cells }));
+                        break;
+                    case 'progress':
+                        clearPeerCells(message.player.id);
+                        break;
+                    case 'player-status':
+                        if (!message.connected) clearPeerCells(message.playerId);
+                        break;
+                    case 'player-left':
+                        clearPeerCells(message.playerId);
+                        break;
+                    case 'error':
+                        setError(message.message);
+                        break;
+                }
+            },
+            onStatusChange: (next, reason) => {
+                setStatus(next);
+                if (reason) setError(reason);
+                if (next === 'closed') {
+                    sessionRef.current = null;
+                    setRoom(null);
+                }
+            },
+        }, serverUrl);
+    };
+
+    const handleHost = () => {
+        try {
+            const board = boardChoice === 'daily' ? getDailyBoard(toDateKey()) : boardFromLink(puzzleLink);
+            start({ type: 'host', name, mode, board });
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Invalid puzzle link');
+        }
+    };
+
+    const handleJoin = () => {
+        start({ type: 'join', room: joinCode, name });
+    };
+
+    const handleLeave = () => {
+        sessionRef.current?.leave();
+        sessionRef.current = null;
+        setRoom(null);
+    };
+
+    const isCoop = room?.mode === 'coop';
+
+    const handleSelectionChange = useCallback((cells: Position[]) => {
+        if (isCoop) sessionRef.current?.send({ type: 'select', cells });
+    }, [isCoop]);
+
+    const handleWordFound = useCallback(({ word, path }: WordPlacement) => {
+        sessionRef.current?.send({ type: 'found', word, cells: path });
+    }, []);
+
+    const sharedFinds = useMemo(
+        () => (isCoop ? room?.finds.map(({ word, cells }) => ({ word, path: cells })) : undefined),
+        [isCoop, room?.finds]
+    );
+
+    const peerSelections = useMemo<PeerSelection[]>(
+        () => (room?.players ?? [])
+            .filter(({ id }) => id !== playerId && peerCells[id])
+            .map(({ id, colour }) => ({ playerId: id, colour, cells: peerCells[id] })),
+        [room?.players, playerId, peerCells]
+    );
+
+    if (!room) {
+        const isBusy = status === 'connecting';
+        return (
+            <div className="multiplayer-lobby" style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '16px' }}>
+                <label>
+                    Your name:{' '}
+                    <input
+                        type="text"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        placeholder="Player"
+                        maxLength={20}
+                        style={inputStyle}
+                    />
+                </label>
+
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '16px', justifyContent: 'center' }}>
+                    <fieldset disabled={isBusy} style={sectionStyle}>
+                        <legend style={{ fontWeight: 'bold' }}>Host a game</legend>
+                        <div role="radiogroup" aria-label="Game mode" style={{ display: 'flex', gap: '12px' }}>
+                            {(Object.keys(MODE_LABELS) as MultiplayerMode[]).map((option) => (
+                                <label key={option}>
+                                    <input
+                                        type="radio"
+                                        name="multiplayer-mode"
+                                        checked={mode === option}
+                                        onChange={() => setMode(option)}
+                                    />{' '}
+                                    {MODE_LABELS[option]}
+                                </label>
+                            ))}
+                        </div>
+                        <span style={{ fontSize: '0.875rem', color: colours.textMuted, textAlign: 'left' }}>
+                            {mode === 'coop'
+                                ? 'Everyone solves one board together.'
+                                : 'Everyone solves their own copy; first to find every word wins.'}
+                        </span>
+                        <label>
+                            Puzzle:{' '}
+                            <select
+                                value={boardChoice}
+                                onChange={(e) => setBoardChoice(e.target.value as BoardChoice)}
+                                style={inputStyle}
+                            >
+                                <option value="daily">Today&apos;s puzzle</option>
+                                <option value="link">A puzzle link</option>
+                            </select>
+                        </label>
+                        {boardChoice === 'link' && (
+                            <input
+                                type="text"
+                                aria-label="Puzzle link"
+                                value={puzzleLink}
+                                onChange={(e) => setPuzzleLink(e.target.value)}
+                                placeholder="Paste a puzzle link"
+                                style={{ ...inputStyle, width: '100%', boxSizing: 'border-box' }}
+                            />
+                        )}
+                        <button
+                            onClick={handleHost}
+                            disabled={boardChoice === 'link' && !puzzleLink.trim()}
+                            style={buttonStyle}
+                        >
+                            Host
+                        </button>
+                    </fieldset>
+
+                    <fieldset disabled={isBusy} style={sectionStyle}>
+                        <legend style={{ fontWeight: 'bold' }}>Join a game</legend>
+                        <label>
+                            Room code:{' '}
+                            <input
+                                type="text"
+                                value={joinCode}
+                                onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+                                placeholder="ABCDE"
+                                maxLength={5}
+                                style={{ ...inputStyle, width: '80px', textTransform: 'uppercase', letterSpacing: '2px' }}
+                            />
+                        </label>
+                        <button onClick={handleJoin} disabled={joinCode.trim().length === 0} style={buttonStyle}>
+                            Join
+                        </button>
+                    </fieldset>
+                </div>
+
+                <details>
+                    <summary style={{ cursor: 'pointer', fontSize: '0.875rem' }}>Server</summary>
+                    <input
+                        type="text"
+                        aria-label="Relay server URL"
+                        value={serverUrl}
+                        onChange={(e) => setServerUrl(e.target.value)}
+                        style={{ ...inputStyle, width: '240px', marginTop: '8px' }}
+                    />
+                </details>
+
+                {isBusy && <div>{STATUS_LABELS[status]}</div>}
+                {error && <div style={{ color: colours.danger }}>{error}</div>}
+            </div>
+        );
+    }
+
+    const players = room.mode === 'race' ? [...room.players].sort(compareStandings) : room.players;
+    const totalWords = room.board.words.length + 1;
+
+    return (
+        <div className="multiplayer-game">
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '12px', alignItems: 'center', justifyContent: 'center', marginBottom: '12px' }}>
+                <span>
+                    Room <strong style={{ letterSpacing: '2px' }}>{room.code}</strong>
+                </span>
+                <button
+                    onClick={() => navigator.clipboard?.writeText(room.code)}
+                    style={{ ...buttonStyle, padding: '2px 8px', backgroundColor: 'transparent', color: colours.accentText }}
+                >
+                    Copy code
+                </button>
+                <span>{MODE_LABELS[room.mode]}</span>
+                <span role="status" style={{ color: status === 'connected' ? colours.success : colours.warning }}>
+                    ● {STATUS_LABELS[status]}
+                </span>
+                <button
+                    onClick={handleLeave}
+                    style={{ ...buttonStyle, padding: '2px 8px', backgroundColor: 'transparent', color: colours.accentText }}
+                >
+                    Leave
+                </button>
+            </div>
+
+            <ol
+                aria-label={room.mode === 'race' ? 'Standings' : 'Players'}
+                style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', justifyContent: 'center', listStyle: 'none', padding: 0, margin: '0 0 16px' }}
+            >
+                {players.map((player) => (
+                    <li
+                        key={player.id}
+                        style={{
+                            padding: '4px 10px',
+                            borderRadius: '12px',
+                            border: `2px solid ${player.colour}`,
+                            opacity: player.connected ? 1 : 0.5,
+                            fontSize: '0.875rem',
+                        }}
+                    >
+                        <strong style={{ color: player.colour }}>{player.name}</strong>
+                        {player.id === playerId && ' (you)'}
+                        {' · '}
+                        {player.finishedAtMs !== null
+                            ? `finished in ${formatDuration(player.finishedAtMs)}`
+                            : `${player.foundWords.length}/${totalWords}`}
+                        {!player.connected && ' · offline'}
+                    </li>
+                ))}
+            </ol>
+
+            {error && <div style={{ color: colours.danger, marginBottom: '12px' }}>{error}</div>}
+
+            <GameBoard
+                key={room.code}
+                board={room.board.grid}
+                words={room.board.words}
+                spangram={room.board.spangram}
+                placementInfo={room.board.placementInfo}
+                theme={room.board.theme}
+                peerSelections={isCoop ? peerSelections : undefined}
+                sharedFinds={sharedFinds}
+                onSelectionChange={handleSelectionChange}
+                onWordFound={handleWordFound}
+                allowUndo={false}
+            />
+        </div>
+    );
+};
@@ -0,0 +1,345 @@
+/**
+ * PuzzleEditor Component
+ *
+ * This component lets authors hand-craft a puzzle: enter a theme, a spangram and the
+ * theme words, choose a grid size, then paint each word's path onto the grid.
+ * The grid letters follow from the painted paths.
+ *
+ * Features:
+ * - Click cells in order to paint the selected word; click its last cell to step back
+ * - Live validation (adjacency, coverage, overlaps, spangram spanning two edges)
+ * - Export as Board JSON, and import a Board JSON file back for editing
+ * - Test play of a valid puzzle in GameBoard
+ */
+
+import React, { useMemo, useState } from 'react';
+import { GameBoard } from './GameBoard';
+import { DecodeError, decodeBoardData } from '../services/decoder';
+import { GENERATE_OPTION_LIMITS } from '../services/generateOptions';
+import { hashBoard } from '../services/storage';
+import { Position } from '../types/game';
+import {
+    buildBoardFromDraft,
+    draftEntries,
+    draftFromBoard,
+    EditorDraft,
+    emptyDraft,
+    validateDraft,
+} from '../utils/editor';
+import { cellKey } from '../utils/grid';
+import { colours } from '../utils/theme';
+
+const CELL_SIZE = 40;
+
+const inputStyle: React.CSSProperties = {
+    padding: '6px',
+    borderRadius: '4px',
+    border: `1px solid ${colours.border}`,
+};
+
+const buttonStyle: React.CSSProperties = {
+    padding: '4px 12px',
+    borderRadius: '4px',
+    border: `1px solid ${colours.accent}`,
+    background: 'none',
+    color: colours.accentText,
+    cursor: 'pointer',
+};
+
+/**
+ * Background colours for painted words; the spangram always uses the first. They keep
+ * the same dark text in every theme.
+ */
+const PATH_COLOURS = ['#F6E05E', '#90CDF4', '#9AE6B4', '#FBB6CE', '#D6BCFA', '#FBD38D', '#81E6D9', '#FEB2B2'];
+const PATH_TEXT_COLOUR = '#1A202C';
+
+const sameCell = ([r1, c1]: Position, [r2, c2]: Position): boolean => r1 === r2 && c1 === c2;
+
+/**
+ * Suggests a file name for an exported puzzle from its theme
+ */
+const toFileName = (theme: string): string =>
+    `${theme.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'puzzle'}.json`;
+
+export const PuzzleEditor: React.FC = () => {
+    const [draft, setDraft] = useState<EditorDraft>(emptyDraft);
+    const [wordsText, setWordsText] = useState('');
+    const [selectedWord, setSelectedWord] = useState<string | null>(null);
+    const [importError, setImportError] = useState<string | null>(null);
+    const [isPlaying, setIsPlaying] = useState(false);
+
+    const entries = useMemo(() => draftEntries(draft), [draft]);
+    const board = useMemo(() => buildBoardFromDraft(draft), [draft]);
+    const errors = useMemo(() => validateDraft(draft), [draft]);
+    const isValid = errors.length === 0;
+    const activeWord = selectedWord && entries.includes(selectedWord) ? selectedWord : entries[0] ?? null;
+    const activePath = activeWord ? draft.paths[activeWord] ?? [] : [];
+
+    // Uncovered cells are shown on the grid; listing each one would drown the other problems
+    const uncoveredCount = errors.filter(({ code }) => code === 'UNCOVERED_CELL').length;
+    const listedErrors = errors.filter(({ code }) => code !== 'UNCOVERED_CELL');
+    const flaggedCells = new Set(
+        errors.filter(({ code }) => code !== 'UNCOVERED_CELL' && code !== 'INVALID_CELL')
+            .flatMap(({ position }) => (position ? [cellKey(position)] : []))
+    );
+
+    const updateDraft = (changes: Partial<EditorDraft>) => {
+        setDraft((current) => ({ ...current, ...changes }));
+        setIsPlaying(false);
+    };
+
+    const handleWordsChange = (text: string) => {
+        setWordsText(text);
+        updateDraft({ words: text.split(/[\n,]/) });
+    };
+
+    const handleSizeChange = (key: 'rows' | 'cols', value: number) => {
+        const { min, max } = GENERATE_OPTION_LIMITS[key];
+        if (!Number.isNaN(value)) {
+            updateDraft({ [key]: Math.min(max, Math.max(min, value)) });
+        }
+    };
+
+    const setPath = (word: string, path: Position[]) => {
+        updateDraft({ paths: { ...draft.paths, [word]: path } });
+    };
+
+    /**
+     * Extends the selected word's path with a cell, or steps back if it is the last cell
+     */
+    const handleCellClick = (cell: Position) => {
+        if (!activeWord) return;
+
+        const last = activePath[activePath.length - 1];
+        if (last && sameCell(last, cell)) {
+            setPath(activeWord, activePath.slice(0, -1));
+            return;
+        }
+        if (activePath.length >= activeWord.length || activePath.some((pos) => sameCell(pos, cell))) {
+            return;
+        }
+
+        const path = [...activePath, cell];
+        setPath(activeWord, path);
+        if (path.length === activeWord.length) {
+            // Move on to the next word that still needs a path
+            const next = entries.find((word) => (draft.paths[word]?.length ?? 0) < word.length && word !== activeWord);
+            if (next) setSelectedWord(next);
+        }
+    };
+
+    const handleExport = () => {
+        const blob = new Blob([JSON.stringify(board, null, 2)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = toFileName(board.theme);
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleImport = async (file: File | undefined) => {
+        if (!file) return;
+        try {
+            const imported = decodeBoardData(JSON.parse(await file.text()));
+            const newDraft = draftFromBoard(imported);
+            setDraft(newDraft);
+            setWordsText(newDraft.words.join('\n'));
+            setSelectedWord(null);
+            setImportError(null);
+            setIsPlaying(false);
+        } catch (err) {
+            const reason = err instanceof DecodeError || err instanceof SyntaxError ? err.message : 'unreadable file';
+            setImportError(`${file.name} is not a puzzle exported by the editor (${reason})`);
+        }
+    };
+
+    /**
+     * Finds which word's path covers a cell, preferring the selected word
+     */
+    const getCellOwner = (cell: Position): string | undefined =>
+        activePath.some((pos) => sameCell(pos, cell))
+            ? activeWord ?? undefined
+            : entries.find((word) => draft.paths[word]?.some((pos) => sameCell(pos, cell)));
+
+    return (
+        <div className="puzzle-editor" style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '12px', justifyContent: 'center' }}>
+                <label>
+                    Theme:{' '}
+                    <input
+                        type="text"
+                        value={draft.theme}
+                        onChange={(e) => updateDraft({ theme: e.target.value })}
+                        style={inputStyle}
+                    />
+                </label>
+                <label>
+                    Spangram:{' '}
+                    <input
+                        type="text"
+                        value={draft.spangram}
+                        onChange={(e) => updateDraft({ spangram: e.target.value })}
+                        style={inputStyle}
+                    />
+                </label>
+                <label>
+                    Grid:{' '}
+                    <input
+                        type="number"
+                        aria-label="Rows"
+                        value={draft.rows}
+                        min={GENERATE_OPTION_LIMITS.rows.min}
+                        max={GENERATE_OPTION_LIMITS.rows.max}
+                        onChange={(e) => handleSizeChange('rows', e.target.valueAsNumber)}
+                        style={{ ...inputStyle, width: '56px' }}
+                    />
+                    {' x '}
+                    <input
+                        type="number"
+                        aria-label="Columns"
+                        value={draft.cols}
+                        min={GENERATE_OPTION_LIMITS.cols.min}
+                        max={GENERATE_OPTION_LIMITS.cols.max}
+                        onChange={(e) => handleSizeChange('cols', e.target.valueAsNumber)}
+                        style={{ ...inputStyle, width: '56px' }}
+                    />
+                </label>
+            </div>
+
+            <label style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '4px' }}>
+                Theme words (one per line):
+                <textarea
+                    value={wordsText}
+                    onChange={(e) => handleWordsChange(e.target.value)}
+                    rows={4}
+                    style={{ ...inputStyle, width: '240px', fontFamily: 'inherit' }}
+                />
+            </label>
+
+            {entries.length > 0 && (
+                <div role="radiogroup" aria-label="Word to paint" style={{ display: 'flex', flexWrap: 'wrap', gap: '6px', justifyContent: 'center' }}>
+                    {entries.map((word, i) => {
+                        const painted = draft.paths[word]?.length ?? 0;
+                        const isActive = word === activeWord;
+                        return (
+                            <button
+                                key={word}
+                                role="radio"
+                                aria-checked={isActive}
+                                onClick={() => setSelectedWord(word)}
+                                style={{
+                                    ...buttonStyle,
+                                    backgroundColor: PATH_COLOURS[i % PATH_COLOURS.length],
+                                    color: PATH_TEXT_COLOUR,
+                                    border: isActive ? `2px solid ${colours.text}` : '2px solid transparent',
+                                }}
+                            >
+                                {i === 0 ? `★ ${word}` : word} ({painted}/{word.length})
+                            </button>
+                        );
+                    })}
+                </div>
+            )}
+
+            <div
+                style={{
+                    display: 'grid',
+                    gridTemplateColumns: `repeat(${draft.cols}, ${CELL_SIZE}px)`,
+                    gap: '4px',
+                    justifyContent: 'center',
+                }}
+            >
+                {board.grid.map((row, r) =>
+                    row.map((letter, c) => {
+                        const owner = getCellOwner([r, c]);
+                        const ownerIndex = owner ? entries.indexOf(owner) : -1;
+                        const isFlagged = flaggedCells.has(cellKey([r, c]));
+                        return (
+                            <button
+                                key={`${r}-${c}`}
+                                onClick={() => handleCellClick([r, c])}
+                                aria-label={`Row ${r + 1}, column ${c + 1}${letter ? `, ${letter}` : ', empty'}`}
+                                style={{
+                                    width: `${CELL_SIZE}px`,
+                                    height: `${CELL_SIZE}px`,
+                                    borderRadius: '4px',
+                                    border: isFlagged ? `2px solid ${colours.danger}` : letter ? '2px solid transparent' : `2px dashed ${colours.border}`,
+                                    backgroundColor: ownerIndex >= 0 ? PATH_COLOURS[ownerIndex % PATH_COLOURS.length] : 'transparent',
+                                    color: ownerIndex >= 0 ? PATH_TEXT_COLOUR : colours.cellText,
+                                    fontSize: '1.25rem',
+                                    fontWeight: 'bold',
+                                    cursor: activeWord ? 'pointer' : 'default',
+                                }}
+                            >
+                                {letter}
+                            </button>
+                        );
+                    })
+                )}
+            </div>
+
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', justifyContent: 'center' }}>
+                <button
+                    onClick={() => activeWord && setPath(activeWord, [])}
+                    disabled={activePath.length === 0}
+                    style={buttonStyle}
+                >
+                    Clear path
+                </button>
+                <button onClick={handleExport} disabled={!isValid} style={buttonStyle}>
+                    Export JSON
+                </button>
+                <label style={{ ...buttonStyle, display: 'inline-block' }}>
+                    Import JSON
+                    <input
+                        type="file"
+                        accept="application/json,.json"
+                        onChange={(e) => {
+                            handleImport(e.target.files?.[0]);
+                            e.target.value = '';
+                        }}
+                        style={{ display: 'none' }}
+                    />
+                </label>
+                <button
+                    onClick={() => setIsPlaying(true)}
+                    disabled={!isValid}
+                    style={{ ...buttonStyle, backgroundColor: isValid ? colours.accent : 'transparent', color: isValid ? colours.onAccent : colours.accentText }}
+                >
+                    Play
+                </button>
+            </div>
+
+            {importError && (
+                <div role="alert" style={{ color: colours.danger }}>{importError}</div>
+            )}
+
+            <div aria-live="polite" style={{ textAlign: 'left' }}>
+                {isValid ? (
+                    <p style={{ color: colours.success }}>The puzzle is complete and valid.</p>
+                ) : (
+                    <ul style={{ color: colours.danger }}>
+                        {listedErrors.map((boardError, i) => (
+                            <li key={i}>{boardError.message}</li>
+                        ))}
+                        {uncoveredCount > 0 && (
+                            <li>{uncoveredCount} {uncoveredCount === 1 ? 'cell is' : 'cells are'} not part of any word</li>
+                        )}
+                    </ul>
+                )}
+            </div>
+
+            {isPlaying && isValid && (
+                <GameBoard
+                    key={hashBoard(board)}
+                    board={board.grid}
+                    words={board.words}
+                    spangram={board.spangram}
+                    placementInfo={board.placementInfo}
+                    theme={board.theme}
+                />
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,75 @@
+/**
+ * PuzzleSourcePicker Component
+ *
+ * This component lets the player choose where new puzzles come from:
+ * the backend (at the default or a custom URL), a local JSON puzzle file, or the mock server.
+ */
+
+import React from 'react';
+import { DEFAULT_API_URL } from '../services/api';
+import { PuzzleSourceConfig, PuzzleSourceKind, SOURCE_LABELS } from '../services/puzzleSource';
+import { colours } from '../utils/theme';
+
+interface PuzzleSourcePickerProps {
+    config: PuzzleSourceConfig;
+    onChange: (config: PuzzleSourceConfig) => void;
+    file: File | null;
+    onFileChange: (file: File | null) => void;
+}
+
+const inputStyle: React.CSSProperties = {
+    padding: '6px',
+    borderRadius: '4px',
+    border: `1px solid ${colours.border}`,
+};
+
+export const PuzzleSourcePicker: React.FC<PuzzleSourcePickerProps> = ({
+    config,
+    onChange,
+    file,
+    onFileChange,
+}) => {
+    return (
+        <div
+            className="puzzle-source-picker"
+            style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', justifyContent: 'center', marginBottom: '12px' }}
+        >
+            <label>
+                Puzzle source:{' '}
+                <select
+                    value={config.kind}
+                    onChange={(e) => onChange({ ...config, kind: e.target.value as PuzzleSourceKind })}
+                    style={inputStyle}
+                >
+                    {(Object.keys(SOURCE_LABELS) as PuzzleSourceKind[]).map((kind) => (
+                        <option key={kind} value={kind}>{SOURCE_LABELS[kind]}</option>
+                    ))}
+                </select>
+            </label>
+
+            {config.kind === 'remote' && (
+                <label>
+                    URL:{' '}
+                    <input
+                        type="url"
+                        value={config.baseUrl}
+                        onChange={(e) => onChange({ ...config, baseUrl: e.target.value })}
+                        placeholder={DEFAULT_API_URL}
+                        style={{ ...inputStyle, width: '280px' }}
+                    />
+                </label>
+            )}
+
+            {config.kind === 'file' && (
+                <label>
+                    {file ? `Using ${file.name}. Replace:` : 'Choose a JSON file:'}{' '}
+                    <input
+                        type="file"
+                        accept="application/json,.json"
+                        onChange={(e) => onFileChange(e.target.files?.[0] ?? null)}
+                    />
+                </label>
+            )}
+        </div>
+    );
+};
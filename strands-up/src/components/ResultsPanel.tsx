@@ -0,0 +1,97 @@
+/**
+ * ResultsPanel Component
+ *
+ * This component summarizes a finished game without spoiling the answers.
+ *
+ * Features:
+ * - Solve time and number of wrong guesses
+ * - The order words were found in, and where the spangram came
+ * - A copyable emoji grid in the style of the NYT Strands share text
+ */
+
+import React, { useState } from 'react';
+import { formatDuration } from '../utils/format';
+import { buildShareText, GameResult } from '../utils/results';
+import { colours } from '../utils/theme';
+
+interface ResultsPanelProps {
+    result: GameResult;
+}
+
+export const ResultsPanel: React.FC<ResultsPanelProps> = ({ result }) => {
+    const [copyStatus, setCopyStatus] = useState<string | null>(null);
+    const shareText = buildShareText(result);
+    const spangramIndex = result.foundWords.indexOf(result.spangram);
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(shareText);
+            setCopyStatus('Copied!');
+        } catch {
+            setCopyStatus('Copy failed; select the text above instead');
+        }
+    };
+
+    return (
+        <section
+            aria-label="Results"
+            style={{
+                padding: '16px',
+                borderRadius: '8px',
+                backgroundColor: colours.successSurface,
+                textAlign: 'center',
+            }}
+        >
+            <div style={{ fontSize: '1.25rem', fontWeight: 'bold', marginBottom: '8px' }}>
+                Solved in {formatDuration(result.elapsedMs)}
+            </div>
+            <div style={{ fontSize: '0.875rem', color: colours.textMuted, marginBottom: '12px' }}>
+                Spangram found {spangramIndex + 1} of {result.foundWords.length}
+                {' · '}
+                {result.wrongGuesses} wrong {result.wrongGuesses === 1 ? 'guess' : 'guesses'}
+                {' · '}
+                {result.hintsUsedAt.length} {result.hintsUsedAt.length === 1 ? 'hint' : 'hints'}
+            </div>
+
+            <ol style={{ display: 'inline-block', textAlign: 'left', margin: '0 0 12px', paddingLeft: '24px' }}>
+                {result.foundWords.map((word) => (
+                    <li key={word}>
+                        {word}
+                        {word === result.spangram && ' (spangram)'}
+                    </li>
+                ))}
+            </ol>
+
+            <pre
+                style={{
+                    fontFamily: 'inherit',
+                    fontSize: '1.25rem',
+                    lineHeight: 1.4,
+                    margin: '0 0 12px',
+                    whiteSpace: 'pre-wrap',
+                }}
+            >
+                {shareText}
+            </pre>
+
+            <button
+                onClick={handleCopy}
+                style={{
+                    padding: '8px 16px',
+                    borderRadius: '4px',
+                    backgroundColor: colours.accent,
+                    color: colours.onAccent,
+                    border: 'none',
+                    cursor: 'pointer',
+                }}
+            >
+                Copy results
+            </button>
+            {copyStatus && (
+                <div role="status" style={{ marginTop: '8px', fontSize: '0.875rem' }}>
+                    {copyStatus}
+                </div>
+            )}
+        </section>
+    );
+};
@@ -0,0 +1,91 @@
+/**
+ * SavedGamesList Component
+ *
+ * This component lists previously played games stored on this device
+ * and lets the player reopen or delete them.
+ */
+
+import React, { useState } from 'react';
+import { SavedGameSummary } from '../services/storage';
+import { colours } from '../utils/theme';
+
+interface SavedGamesListProps {
+    games: SavedGameSummary[];
+    currentId: string | null;
+    onOpen: (id: string) => void;
+    onDelete: (id: string) => void;
+}
+
+export const SavedGamesList: React.FC<SavedGamesListProps> = ({
+    games,
+    currentId,
+    onOpen,
+    onDelete,
+}) => {
+    const [isOpen, setIsOpen] = useState<boolean>(false);
+
+    if (games.length === 0) return null;
+
+    return (
+        <div style={{ marginTop: '16px', textAlign: 'left' }}>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                aria-expanded={isOpen}
+                style={{
+                    padding: '4px 8px',
+                    borderRadius: '4px',
+                    border: 'none',
+                    background: 'none',
+                    cursor: 'pointer',
+                    color: colours.textMuted,
+                }}
+            >
+                {isOpen ? 'Hide' : 'Show'} past games ({games.length})
+            </button>
+            {isOpen && (
+                <ul style={{ listStyle: 'none', padding: 0, margin: '8px 0' }}>
+                    {games.map((game) => (
+                        <li
+                            key={game.id}
+                            style={{
+                                display: 'flex',
+                                alignItems: 'center',
+                                justifyContent: 'space-between',
+                                gap: '8px',
+                                padding: '6px 8px',
+                                borderRadius: '4px',
+                                backgroundColor: game.id === currentId ? colours.accentSurface : 'transparent',
+                            }}
+                        >
+                            <span>
+                                <strong>{game.theme}</strong>{' '}
+                                <span style={{ fontSize: '0.875rem', color: colours.textMuted }}>
+                                    {game.foundCount}/{game.totalWords} words
+                                    {game.foundCount === game.totalWords && ' (solved)'}
+                                    {' · '}
+                                    {new Date(game.updatedAt).toLocaleDateString()}
+                                </span>
+                            </span>
+                            <span style={{ display: 'flex', gap: '4px' }}>
+                                <button
+                                    onClick={() => onOpen(game.id)}
+                                    disabled={game.id === currentId}
+                                    style={{ padding: '2px 8px', borderRadius: '4px', fontSize: '0.875rem' }}
+                                >
+                                    Open
+                                </button>
+                                <button
+                                    onClick={() => onDelete(game.id)}
+                                    aria-label={`Delete ${game.theme}`}
+                                    style={{ padding: '2px 8px', borderRadius: '4px', fontSize: '0.875rem' }}
+                                >
+                                    Delete
+                                </button>
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,34 @@
+/**
+ * ThemePicker Component
+ *
+ * This component lets the player choose the colour theme: follow the system,
+ * or always use the light, dark or high-contrast palette. The choice is remembered.
+ */
+
+import React from 'react';
+import { PREFERENCE_LABELS, ThemePreference } from '../services/themePreference';
+import { colours } from '../utils/theme';
+
+interface ThemePickerProps {
+    preference: ThemePreference;
+    onChange: (preference: ThemePreference) => void;
+}
+
+export const ThemePicker: React.FC<ThemePickerProps> = ({ preference, onChange }) => {
+    return (
+        <label style={{ fontSize: '0.875rem', color: colours.textMuted }}>
+            Theme:{' '}
+            <select
+                value={preference}
+                onChange={(e) => onChange(e.target.value as ThemePreference)}
+                style={{ padding: '4px', borderRadius: '4px', border: `1px solid ${colours.border}` }}
+            >
+                {(Object.keys(PREFERENCE_LABELS) as ThemePreference[]).map((option) => (
+                    <option key={option} value={option}>
+                        {PREFERENCE_LABELS[option]}
+                    </option>
+                ))}
+            </select>
+        </label>
+    );
+};
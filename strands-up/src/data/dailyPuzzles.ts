@@ -0,0 +1,37 @@
+/**
+ * Daily Puzzles
+ *
+ * This file contains the bundled puzzle definitions used by the daily puzzle mode.
+ * Each definition fills a default 8x6 grid exactly (48 letters including the spangram);
+ * the board itself is laid out by the offline generator, seeded with the date.
+ */
+
+export interface PuzzleDefinition {
+    theme: string;
+    spangram: string;
+    words: string[];
+}
+
+export const DAILY_PUZZLES: PuzzleDefinition[] = [
+    { theme: 'Fruit bowl', spangram: 'FRUITSALAD', words: ['APPLE', 'BANANA', 'CHERRY', 'GRAPE', 'MANGO', 'PEACH', 'LEMONS'] },
+    { theme: 'In the kitchen', spangram: 'COOKWARE', words: ['SKILLET', 'SAUCEPAN', 'STEAMER', 'STOCKPOT', 'GRIDDLE', 'WOK'] },
+    { theme: 'Night sky', spangram: 'STARGAZING', words: ['COMET', 'PLANET', 'METEOR', 'NEBULA', 'GALAXY', 'ORBIT', 'MOON'] },
+    { theme: 'Garden party', spangram: 'FLOWERBED', words: ['ROSE', 'TULIP', 'DAISY', 'ORCHID', 'LILAC', 'PEONY', 'ASTER', 'IRIS'] },
+    { theme: 'Band practice', spangram: 'INSTRUMENTS', words: ['PIANO', 'GUITAR', 'BANJO', 'TRUMPET', 'FLUTE', 'CELLO', 'DRUM'] },
+    { theme: 'Weather report', spangram: 'FORECAST', words: ['RAIN', 'THUNDER', 'CLOUDY', 'SLEET', 'STORM', 'BREEZE', 'HAIL', 'FOG'] },
+    { theme: 'Ocean life', spangram: 'SEACREATURES', words: ['WHALE', 'SHARK', 'SQUID', 'OCTOPUS', 'DOLPHIN', 'CRAB', 'EEL'] },
+    { theme: 'Code review', spangram: 'PROGRAMMING', words: ['QUERY', 'COMPILE', 'DEBUG', 'BRANCH', 'MERGE', 'LOOP', 'ARRAY'] },
+    { theme: 'Breakfast table', spangram: 'MORNINGMEAL', words: ['TOAST', 'BACON', 'WAFFLE', 'OMELET', 'CEREAL', 'JUICE', 'EGGS'] },
+    { theme: 'Board games', spangram: 'TABLETOP', words: ['CHESS', 'SORRY', 'DOMINO', 'SCRABBLE', 'RISK', 'CLUE', 'MONOPOLY'] },
+    { theme: 'Camping trip', spangram: 'GREATOUTDOORS', words: ['TENT', 'LANTERN', 'CAMPFIRE', 'HIKING', 'COMPASS', 'MAP'] },
+    { theme: 'At the bakery', spangram: 'FRESHBREAD', words: ['BAGEL', 'MUFFIN', 'SCONE', 'CROISSANT', 'BUNS', 'DONUT', 'ROLL'] },
+    { theme: 'Spice rack', spangram: 'SEASONING', words: ['CUMIN', 'PAPRIKA', 'NUTMEG', 'DILL', 'GINGER', 'SAFFRON', 'SAGE'] },
+    { theme: 'Tool box', spangram: 'HARDWARE', words: ['HAMMER', 'WRENCH', 'PLIERS', 'SANDER', 'CHISEL', 'LEVEL', 'CLAMP'] },
+    { theme: 'Winter fun', spangram: 'SNOWYDAYS', words: ['SKATES', 'MITTENS', 'SCARF', 'IGLOO', 'SKIING', 'COCOA', 'FROST'] },
+    { theme: 'Office supplies', spangram: 'STATIONERY', words: ['STAPLER', 'PENCIL', 'ERASER', 'BINDER', 'MARKER', 'TAPE', 'INK'] },
+    { theme: 'Farm animals', spangram: 'BARNYARD', words: ['HORSE', 'HEN', 'SHEEP', 'PIGLET', 'ROOSTER', 'DONKEY', 'LLAMA', 'COW'] },
+    { theme: 'Road trip', spangram: 'HIGHWAY', words: ['MOTEL', 'DETOUR', 'MILEAGE', 'EXIT', 'SNACKS', 'TRUNK', 'MAP', 'RADIO'] },
+    { theme: 'Gemstones', spangram: 'BIRTHSTONES', words: ['RUBY', 'EMERALD', 'SAPPHIRE', 'OPAL', 'TOPAZ', 'ONYX', 'PEARL'] },
+    { theme: 'Sports day', spangram: 'ATHLETICS', words: ['SPRINT', 'HURDLES', 'RELAY', 'JAVELIN', 'DISCUS', 'MARATHON'] },
+    { theme: 'Desserts', spangram: 'SWEETTOOTH', words: ['PUDDING', 'SUNDAE', 'BROWNIE', 'COOKIE', 'TART', 'FUDGE', 'PIE'] },
+];
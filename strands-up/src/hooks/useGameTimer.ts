@@ -0,0 +1,55 @@
+/**
+ * useGameTimer Hook
+ *
+ * This hook tracks how long a game has been actively played.
+ * The clock pauses while the page is hidden and stops for good once the game is finished.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+interface GameTimer {
+    /** Elapsed play time as of the last tick (updates once a second) */
+    elapsedMs: number;
+    /** Whether the clock is paused because the page is hidden */
+    isPaused: boolean;
+    /** Reads the exact elapsed play time */
+    getElapsedMs: () => number;
+}
+
+/**
+ * @param initialElapsedMs - Time already played in an earlier session
+ * @param isRunning - Whether the clock should run (false once the game is complete)
+ */
+export const useGameTimer = (initialElapsedMs: number, isRunning: boolean): GameTimer => {
+    const accumulatedRef = useRef<number>(initialElapsedMs);
+    const segmentStartRef = useRef<number | null>(null);
+    const [isPaused, setIsPaused] = useState<boolean>(() => document.hidden);
+    const [elapsedMs, setElapsedMs] = useState<number>(initialElapsedMs);
+
+    const getElapsedMs = useCallback(() => {
+        const segmentStart = segmentStartRef.current;
+        return accumulatedRef.current + (segmentStart === null ? 0 : Date.now() - segmentStart);
+    }, []);
+
+    // Run the clock only while the game is unfinished and the page is visible
+    useEffect(() => {
+        if (!isRunning || isPaused) return;
+
+        segmentStartRef.current = Date.now();
+        const interval = window.setInterval(() => setElapsedMs(getElapsedMs()), 1000);
+        return () => {
+            window.clearInterval(interval);
+            accumulatedRef.current = getElapsedMs();
+            segmentStartRef.current = null;
+            setElapsedMs(accumulatedRef.current);
+        };
+    }, [isRunning, isPaused, getElapsedMs]);
+
+    useEffect(() => {
+        const handleVisibilityChange = () => setIsPaused(document.hidden);
+        document.addEventListener('visibilitychange', handleVisibilityChange);
+        return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+    }, []);
+
+    return { elapsedMs, isPaused, getElapsedMs };
+};
@@ -0,0 +1,42 @@
+/**
+ * useGridLayout Hook
+ *
+ * This hook sizes a letter grid to fit its container, re-measuring whenever the
+ * container changes size (window resizes, rotation, sidebars opening).
+ */
+
+import { RefObject, useLayoutEffect, useMemo, useState } from 'react';
+import { computeGridLayout, GridLayout } from '../utils/gridLayout';
+
+/**
+ * @param containerRef - The element the grid has to fit in
+ * @param rows - Number of rows
+ * @param cols - Number of columns
+ * @param zoom - Pinch zoom factor
+ */
+export const useGridLayout = (
+    containerRef: RefObject<HTMLElement>,
+    rows: number,
+    cols: number,
+    zoom = 1
+): GridLayout => {
+    const [availableWidth, setAvailableWidth] = useState<number>(0);
+
+    // Measure before the first paint, then follow size changes
+    useLayoutEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+
+        setAvailableWidth(container.clientWidth);
+        if (typeof ResizeObserver === 'undefined') return;
+
+        const observer = new ResizeObserver(([entry]) => setAvailableWidth(entry.contentRect.width));
+        observer.observe(container);
+        return () => observer.disconnect();
+    }, [containerRef]);
+
+    return useMemo(
+        () => computeGridLayout(availableWidth, rows, cols, zoom),
+        [availableWidth, rows, cols, zoom]
+    );
+};
@@ -0,0 +1,56 @@
+/**
+ * useTheme Hook
+ *
+ * This hook applies the player's colour theme to the page: the chosen palette, or for the
+ * `system` preference the one matching `prefers-color-scheme` and `prefers-contrast`, kept
+ * up to date when the system setting changes. The palette's tokens are written as CSS
+ * custom properties on the page root before paint, so the page never flashes another theme.
+ */
+
+import { useCallback, useLayoutEffect, useState, useSyncExternalStore } from 'react';
+import { loadThemePreference, saveThemePreference, ThemePreference } from '../services/themePreference';
+import { findContrastIssues, ThemeName, THEMES, themeVariables } from '../utils/theme';
+
+const SYSTEM_QUERIES = ['(prefers-color-scheme: dark)', '(prefers-contrast: more)'];
+
+const matches = (query: string) => typeof window.matchMedia === 'function' && window.matchMedia(query).matches;
+
+/**
+ * Picks the palette matching the system settings
+ */
+const getSystemTheme = (): ThemeName => {
+    if (matches('(prefers-contrast: more)')) return 'high-contrast';
+    return matches('(prefers-color-scheme: dark)') ? 'dark' : 'light';
+};
+
+const subscribeToSystemTheme = (onChange: () => void) => {
+    if (typeof window.matchMedia !== 'function') return () => {};
+    const lists = SYSTEM_QUERIES.map((query) => window.matchMedia(query));
+    lists.forEach((list) => list.addEventListener('change', onChange));
+    return () => lists.forEach((list) => list.removeEventListener('change', onChange));
+};
+
+export const useTheme = () => {
+    const [preference, setPreferenceState] = useState<ThemePreference>(loadThemePreference);
+    const systemTheme = useSyncExternalStore(subscribeToSystemTheme, getSystemTheme);
+    const theme: ThemeName = preference === 'system' ? systemTheme : preference;
+
+    useLayoutEffect(() => {
+        const root = document.documentElement;
+        themeVariables(THEMES[theme]).forEach(([name, value]) => root.style.setProperty(name, value));
+        root.style.colorScheme = theme === 'dark' ? 'dark' : 'light';
+        root.dataset.theme = theme;
+
+        if (import.meta.env.DEV) {
+            const issues = findContrastIssues(THEMES[theme]);
+            if (issues.length > 0) console.warn(`The ${theme} theme misses WCAG contrast:`, issues);
+        }
+    }, [theme]);
+
+    const setPreference = useCallback((next: ThemePreference) => {
+        saveThemePreference(next);
+        setPreferenceState(next);
+    }, []);
+
+    return { preference, theme, setPreference };
+};
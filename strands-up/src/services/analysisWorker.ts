@@ -0,0 +1,13 @@
+/**
+ * Analysis Worker
+ *
+ * This file runs in a Web Worker: it receives a board, runs the full (slow on hard
+ * boards) puzzle analysis off the UI thread and posts the result back.
+ */
+
+import { Board } from '../types/game';
+import { analyzePuzzle } from '../utils/solver';
+
+self.addEventListener('message', (event: MessageEvent<Board>) => {
+    self.postMessage(analyzePuzzle(event.data));
+});
@@ -1,54 +1,234 @@
 /**
  * API Service
- * 
+ *
  * This file contains functions for communicating with the game's backend API.
+ *
+ * Requests time out, retry with backoff on server and network failures, can be
+ * cancelled with an AbortSignal and report progress (e.g. while the hosted backend
+ * wakes up from a cold start). Failures are thrown as typed ApiErrors.
  */
 
-import { Board } from '../types/game';
+import { Board, PlacementInfo } from '../types/game';
+import { ApiKeyProvider } from './apiKeyManager';
+import { DecodeError, decodeGenerateResponse } from './decoder';
+import { GenerateOptions, toGenerateRequestBody } from './generateOptions';
+import {
+    AbortedError,
+    ApiError,
+    AuthError,
+    MalformedResponseError,
+    NetworkError,
+    RateLimitError,
+    RequestError,
+    ServerError,
+    TimeoutError,
+} from './apiErrors';
 
-const API_URL = 'https://strands-up-backend.onrender.com/api/game';
+/**
+ * The hosted backend; override with VITE_API_URL to develop against a local backend
+ */
+export const DEFAULT_API_URL = import.meta.env.VITE_API_URL ?? 'https://strands-up-backend.onrender.com/api/game';
+
+const DEFAULT_TIMEOUT_MS = 90_000;
+const DEFAULT_RETRIES = 3;
+const DEFAULT_WAKE_THRESHOLD_MS = 5_000;
+const BACKOFF_BASE_MS = 1_000;
+
+export type RequestProgress =
+    | { state: 'connecting' }
+    | { state: 'waking-server' }
+    | { state: 'retrying'; attempt: number; maxAttempts: number; delayMs: number; error: ApiError };
+
+export interface ApiOptions {
+    /** Base URL of the game API (without the trailing /generate) */
+    baseUrl?: string;
+    /** fetch implementation, e.g. the mock server */
+    fetch?: typeof fetch;
+    /** Cancels the request, including pending retries */
+    signal?: AbortSignal;
+    /** Time allowed for each attempt */
+    timeoutMs?: number;
+    /** Extra attempts after a server, network or timeout failure */
+    retries?: number;
+    /** How long to wait for a response before reporting that the server is waking up */
+    wakeThresholdMs?: number;
+    onProgress?: (progress: RequestProgress) => void;
+}
 
 /**
- * Generates a new game board using the provided API key.
- * 
- * @param apiKey - The Anthropic API key for authentication
- * @returns A Promise that resolves to a Board object
- * @throws Error if the API request fails
+ * The backend's response to POST /generate (checked at runtime by decodeGenerateResponse)
  */
-export const generateGame = async (apiKey: string): Promise<Board> => {
+export interface GenerateResponse {
+    board: string[][];
+    words: string[];
+    spangram: string;
+    theme: string;
+    placement_info: PlacementInfo;
+}
+
+/**
+ * Waits before a retry, rejecting early if the request is cancelled
+ */
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new AbortedError());
+            return;
+        }
+        const timeout = setTimeout(() => {
+            signal?.removeEventListener('abort', handleAbort);
+            resolve();
+        }, ms);
+        const handleAbort = () => {
+            clearTimeout(timeout);
+            reject(new AbortedError());
+        };
+        signal?.addEventListener('abort', handleAbort, { once: true });
+    });
+
+/**
+ * Reads Retry-After (seconds or an HTTP date) in milliseconds
+ */
+const parseRetryAfter = (header: string | null): number | null => {
+    if (!header) return null;
+    const seconds = Number(header);
+    if (!Number.isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+/**
+ * Turns a non-OK response into the matching ApiError
+ */
+const toResponseError = async (response: Response): Promise<ApiError> => {
+    const errorData = await response.json().catch(() => null);
+    const detail = typeof errorData?.detail === 'string' ? errorData.detail : null;
+    const { status } = response;
+
+    if (status === 401 || status === 403) {
+        return new AuthError(detail || 'The API key was rejected', status);
+    }
+    if (status === 429) {
+        return new RateLimitError(
+            detail || 'Too many requests',
+            parseRetryAfter(response.headers.get('Retry-After'))
+        );
+    }
+    if (status >= 500) {
+        return new ServerError(detail || `The server failed: ${response.statusText || status}`, status);
+    }
+    return new RequestError(detail || `Failed to generate game: ${response.statusText || status}`, status);
+};
+
+/**
+ * Makes one request attempt with its own timeout
+ */
+const attemptGenerate = async (url: string, init: RequestInit, options: ApiOptions): Promise<Board> => {
+    const {
+        fetch: fetchImpl = fetch,
+        signal,
+        timeoutMs = DEFAULT_TIMEOUT_MS,
+        wakeThresholdMs = DEFAULT_WAKE_THRESHOLD_MS,
+        onProgress,
+    } = options;
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const handleAbort = () => controller.abort();
+    signal?.addEventListener('abort', handleAbort, { once: true });
+    const timeout = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+    }, timeoutMs);
+    const wakeTimer = setTimeout(() => onProgress?.({ state: 'waking-server' }), wakeThresholdMs);
+    const seconds = Math.round(timeoutMs / 1000);
+
+    /**
+     * Explains a failure caused by the caller cancelling or this attempt timing out, if it was
+     */
+    const abortReason = (timeoutMessage: string): ApiError | null => {
+        if (signal?.aborted) return new AbortedError();
+        if (timedOut) return new TimeoutError(timeoutMessage);
+        return null;
+    };
+
     try {
-        const response = await fetch(`${API_URL}/generate`, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${apiKey}`
-            },
-            body: JSON.stringify({
-                seed_word: null  // Optional seed word for themed generation
-            }),
-        });
+        let response: Response;
+        try {
+            response = await fetchImpl(url, { ...init, signal: controller.signal });
+        } catch {
+            throw abortReason(`No response from the server after ${seconds}s`) ?? new NetworkError('Could not reach the server');
+        }
+        clearTimeout(wakeTimer);
 
         if (!response.ok) {
-            const errorData = await response.json().catch(() => null);
-            throw new Error(
-                errorData?.detail || 
-                `Failed to generate game: ${response.statusText}`
-            );
+            throw await toResponseError(response);
         }
 
-        const data = await response.json();
-        return {
-            grid: data.board,
-            words: data.words,
-            spangram: data.spangram,
-            theme: data.theme,
-            placementInfo: {
-                spangram: data.placement_info.spangram,
-                words: data.placement_info.words,
-            },
-        };
-    } catch (error) {
-        console.error('Error generating game:', error);
-        throw error;
+        let data: unknown;
+        try {
+            data = await response.json();
+        } catch {
+            throw abortReason(`The server response did not finish within ${seconds}s`) ??
+                new MalformedResponseError('The server response was not valid JSON');
+        }
+        try {
+            return decodeGenerateResponse(data);
+        } catch (error) {
+            if (error instanceof DecodeError) {
+                throw new MalformedResponseError(error.message);
+            }
+            throw error;
+        }
+    } finally {
+        clearTimeout(timeout);
+        clearTimeout(wakeTimer);
+        signal?.removeEventListener('abort', handleAbort);
+    }
+};
+
+/**
+ * Generates a new game board using the provided API key.
+ *
+ * @param keys - Supplies the Anthropic API key; it is checked before anything is sent
+ * @param generateOptions - Seed word, grid size, word limits and difficulty (defaults fill any gaps)
+ * @param options - Base URL, fetch implementation, cancellation, timeout, retries and progress
+ * @returns A Promise that resolves to a Board object
+ * @throws Error if there is no usable key, otherwise ApiError describing why the request failed
+ */
+export const generateGame = async (
+    keys: ApiKeyProvider,
+    generateOptions: Partial<GenerateOptions> = {},
+    options: ApiOptions = {}
+): Promise<Board> => {
+    const { baseUrl = DEFAULT_API_URL, signal, retries = DEFAULT_RETRIES, onProgress } = options;
+    const apiKey = keys.getApiKey();
+    const url = `${baseUrl.replace(/\/+$/, '')}/generate`;
+    const init: RequestInit = {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${apiKey}`
+        },
+        body: JSON.stringify(toGenerateRequestBody(generateOptions)),
+    };
+    const maxAttempts = retries + 1;
+
+    for (let attempt = 1; ; attempt++) {
+        onProgress?.({ state: 'connecting' });
+        try {
+            return await attemptGenerate(url, init, options);
+        } catch (error) {
+            if (!(error instanceof ApiError) || !error.isRetryable || attempt >= maxAttempts) {
+                if (!(error instanceof AbortedError)) {
+                    console.error('Error generating game:', error);
+                }
+                throw error;
+            }
+
+            const delayMs = BACKOFF_BASE_MS * 2 ** (attempt - 1) * (1 + Math.random() * 0.25);
+            onProgress?.({ state: 'retrying', attempt: attempt + 1, maxAttempts, delayMs, error });
+            await wait(delayMs, signal);
+        }
     }
-}; 
\ No newline at end of file
+};
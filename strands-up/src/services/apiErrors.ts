@@ -0,0 +1,102 @@
+/**
+ * API Errors
+ *
+ * This file contains the typed errors thrown by the API client, so callers can tell
+ * a rejected key from a busy server or a broken payload and offer the right recovery.
+ */
+
+export type ApiErrorKind =
+    | 'auth'
+    | 'rate-limit'
+    | 'request'
+    | 'server'
+    | 'malformed'
+    | 'network'
+    | 'timeout'
+    | 'aborted';
+
+export class ApiError extends Error {
+    readonly kind: ApiErrorKind;
+    readonly status?: number;
+
+    constructor(kind: ApiErrorKind, message: string, status?: number) {
+        super(message);
+        this.name = 'ApiError';
+        this.kind = kind;
+        this.status = status;
+    }
+
+    /**
+     * Whether trying the same request again may succeed
+     */
+    get isRetryable(): boolean {
+        return this.kind === 'server' || this.kind === 'network' || this.kind === 'timeout';
+    }
+}
+
+/** The API key was missing or rejected (401/403) */
+export class AuthError extends ApiError {
+    constructor(message: string, status: number) {
+        super('auth', message, status);
+        this.name = 'AuthError';
+    }
+}
+
+/** Too many requests (429) */
+export class RateLimitError extends ApiError {
+    readonly retryAfterMs: number | null;
+
+    constructor(message: string, retryAfterMs: number | null) {
+        super('rate-limit', message, 429);
+        this.name = 'RateLimitError';
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+/** The server refused the request as invalid (other 4xx) */
+export class RequestError extends ApiError {
+    constructor(message: string, status: number) {
+        super('request', message, status);
+        this.name = 'RequestError';
+    }
+}
+
+/** The server failed (5xx) */
+export class ServerError extends ApiError {
+    constructor(message: string, status: number) {
+        super('server', message, status);
+        this.name = 'ServerError';
+    }
+}
+
+/** The response could not be read as a board */
+export class MalformedResponseError extends ApiError {
+    constructor(message: string) {
+        super('malformed', message);
+        this.name = 'MalformedResponseError';
+    }
+}
+
+/** The server could not be reached */
+export class NetworkError extends ApiError {
+    constructor(message: string) {
+        super('network', message);
+        this.name = 'NetworkError';
+    }
+}
+
+/** No response arrived in time */
+export class TimeoutError extends ApiError {
+    constructor(message: string) {
+        super('timeout', message);
+        this.name = 'TimeoutError';
+    }
+}
+
+/** The caller cancelled the request */
+export class AbortedError extends ApiError {
+    constructor() {
+        super('aborted', 'The request was cancelled');
+        this.name = 'AbortedError';
+    }
+}
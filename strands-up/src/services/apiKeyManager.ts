@@ -0,0 +1,161 @@
+/**
+ * API Key Manager
+ *
+ * This file holds the player's API key for the current session and, if they ask for it,
+ * remembers it on this device. A remembered key is never stored in plain text: it is
+ * encrypted with AES-GCM under a key derived from a passphrase (PBKDF2), and has to be
+ * unlocked with the same passphrase in each new session.
+ */
+
+import { readJson, STORAGE_PREFIX, writeJson } from './storage';
+
+const API_KEY_STORAGE_KEY = `${STORAGE_PREFIX}:api-key`;
+const PBKDF2_ITERATIONS = 600_000;
+
+/**
+ * Anthropic API keys look like sk-ant-api03-...
+ */
+const API_KEY_PATTERN = /^sk-ant-[A-Za-z0-9_-]{20,}$/;
+
+/**
+ * Supplies the key for a request, throwing if there is no usable key
+ */
+export interface ApiKeyProvider {
+    getApiKey: () => string;
+}
+
+export interface ApiKeyManager extends ApiKeyProvider {
+    /** The key entered or unlocked this session, which may not be valid yet */
+    currentKey: () => string;
+    /** Uses a key for this session only */
+    setKey: (key: string) => void;
+    hasRememberedKey: () => boolean;
+    /** Encrypts the current key with the passphrase and stores it on this device */
+    remember: (passphrase: string) => Promise<void>;
+    /** Decrypts the remembered key into this session */
+    unlock: (passphrase: string) => Promise<void>;
+    /** Clears the key from this session and from the device */
+    forget: () => void;
+}
+
+interface StoredApiKey {
+    version: 1;
+    iterations: number;
+    salt: string;
+    iv: string;
+    ciphertext: string;
+}
+
+/**
+ * Checks that a key looks like an Anthropic API key
+ *
+ * @returns A message describing the problem, or null if the key looks valid
+ */
+export const checkApiKeyFormat = (key: string): string | null => {
+    if (!key.trim()) return 'Enter your API key';
+    if (!API_KEY_PATTERN.test(key.trim())) {
+        return "That doesn't look like an Anthropic API key (it should start with sk-ant-)";
+    }
+    return null;
+};
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+    const material = await crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(passphrase),
+        'PBKDF2',
+        false,
+        ['deriveKey']
+    );
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+};
+
+const readStoredKey = (): StoredApiKey | null => {
+    const stored = readJson(API_KEY_STORAGE_KEY);
+    return stored && typeof stored === 'object' && 'version' in stored && stored.version === 1
+        ? stored as StoredApiKey
+        : null;
+};
+
+/**
+ * Creates a key manager
+ *
+ * The app shares one manager (apiKeyManager) so the key survives GameContainer remounts.
+ */
+export const createApiKeyManager = (): ApiKeyManager => {
+    let sessionKey = '';
+
+    return {
+        getApiKey: () => {
+            const problem = checkApiKeyFormat(sessionKey);
+            if (problem) throw new Error(problem);
+            return sessionKey;
+        },
+
+        currentKey: () => sessionKey,
+
+        setKey: (key) => {
+            sessionKey = key.trim();
+        },
+
+        hasRememberedKey: () => readStoredKey() !== null,
+
+        remember: async (passphrase) => {
+            const problem = checkApiKeyFormat(sessionKey);
+            if (problem) throw new Error(problem);
+            if (!passphrase) throw new Error('Choose a passphrase to protect the key');
+
+            const salt = crypto.getRandomValues(new Uint8Array(16));
+            const iv = crypto.getRandomValues(new Uint8Array(12));
+            const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+            const ciphertext = await crypto.subtle.encrypt(
+                { name: 'AES-GCM', iv },
+                key,
+                new TextEncoder().encode(sessionKey)
+            );
+            const stored: StoredApiKey = {
+                version: 1,
+                iterations: PBKDF2_ITERATIONS,
+                salt: toBase64(salt),
+                iv: toBase64(iv),
+                ciphertext: toBase64(new Uint8Array(ciphertext)),
+            };
+            writeJson(API_KEY_STORAGE_KEY, stored);
+        },
+
+        unlock: async (passphrase) => {
+            const stored = readStoredKey();
+            if (!stored) throw new Error('No key is saved on this device');
+
+            const key = await deriveKey(passphrase, fromBase64(stored.salt), stored.iterations);
+            try {
+                const plaintext = await crypto.subtle.decrypt(
+                    { name: 'AES-GCM', iv: fromBase64(stored.iv) },
+                    key,
+                    fromBase64(stored.ciphertext)
+                );
+                sessionKey = new TextDecoder().decode(plaintext);
+            } catch {
+                // AES-GCM authentication fails for a wrong passphrase
+                throw new Error('Wrong passphrase');
+            }
+        },
+
+        forget: () => {
+            sessionKey = '';
+            localStorage.removeItem(API_KEY_STORAGE_KEY);
+        },
+    };
+};
+
+export const apiKeyManager = createApiKeyManager();
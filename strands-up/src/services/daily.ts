@@ -0,0 +1,167 @@
+/**
+ * Daily Puzzle Service
+ *
+ * This file contains the daily puzzle selection and the per-day records behind the streak tracker.
+ * Every player gets the same board for a calendar date: the puzzle is picked from the bundled
+ * list by day number and laid out by the offline generator seeded with the date.
+ */
+
+import { DAILY_PUZZLES } from '../data/dailyPuzzles';
+import { Board, GameProgress } from '../types/game';
+import { generateBoard } from '../utils/generator';
+import { migrateProgress, readJson, STORAGE_PREFIX, writeJson } from './storage';
+
+const DAILY_KEY = `${STORAGE_PREFIX}:daily`;
+const DAILY_SCHEMA_VERSION = 2;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface DailyRecord {
+    dateKey: string;
+    progress: GameProgress;
+    startedAt: number;
+    completedAt: number | null;
+    solveTimeMs: number | null;
+}
+
+export type DailyRecords = Record<string, DailyRecord>;
+
+export interface Streaks {
+    current: number;
+    max: number;
+}
+
+interface StoredDailyRecords {
+    version: typeof DAILY_SCHEMA_VERSION;
+    records: DailyRecords;
+}
+
+const formatDateKey = (year: number, month: number, day: number): string =>
+    `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+/**
+ * Formats a date as a local YYYY-MM-DD key
+ */
+export const toDateKey = (date: Date = new Date()): string =>
+    formatDateKey(date.getFullYear(), date.getMonth() + 1, date.getDate());
+
+/**
+ * Converts a YYYY-MM-DD key to a day count since 1970-01-01
+ */
+export const toDayNumber = (dateKey: string): number => {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    return Math.round(Date.UTC(year, month - 1, day) / MS_PER_DAY);
+};
+
+/**
+ * Returns the key of the day `offset` days after the given key
+ */
+export const addDays = (dateKey: string, offset: number): string => {
+    const date = new Date((toDayNumber(dateKey) + offset) * MS_PER_DAY);
+    return formatDateKey(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+};
+
+/**
+ * Builds the puzzle for a calendar date
+ *
+ * @param dateKey - The date as YYYY-MM-DD
+ * @returns The same Board for every player on that date
+ */
+export const getDailyBoard = (dateKey: string): Board => {
+    const count = DAILY_PUZZLES.length;
+    const definition = DAILY_PUZZLES[((toDayNumber(dateKey) % count) + count) % count];
+    return generateBoard({ ...definition, seed: `daily:${dateKey}` });
+};
+
+/**
+ * Loads every stored daily record
+ */
+export const loadDailyRecords = (): DailyRecords => {
+    const stored = readJson(DAILY_KEY);
+    if (!stored || typeof stored !== 'object' || !('version' in stored)) return {};
+
+    switch (stored.version) {
+        case 1:
+            return Object.fromEntries(
+                Object.entries((stored as StoredDailyRecords).records).map(([dateKey, record]) => [
+                    dateKey,
+                    { ...record, progress: migrateProgress(record.progress) },
+                ])
+            );
+        case DAILY_SCHEMA_VERSION:
+            return (stored as StoredDailyRecords).records;
+        default:
+            return {};
+    }
+};
+
+/**
+ * Whether the player has done anything on a board yet (opening it reports progress too)
+ */
+const hasPlayed = (progress: GameProgress): boolean =>
+    (progress.moves?.length ?? 0) > 0 ||
+    progress.foundWords.length > 0 ||
+    progress.nonThemeWords.length > 0 ||
+    progress.wrongGuesses > 0;
+
+/**
+ * Records progress on a day's puzzle, stamping the completion time when it is first solved
+ *
+ * A day gets no record until the player makes a move, so browsing the calendar doesn't
+ * mark days as started.
+ *
+ * @param totalWords - Number of words including the spangram
+ * @returns All daily records, including the updated one
+ */
+export const recordDailyProgress = (
+    dateKey: string,
+    progress: GameProgress,
+    totalWords: number,
+): DailyRecords => {
+    const records = loadDailyRecords();
+    const now = Date.now();
+    const previous = records[dateKey];
+    if (!previous && !hasPlayed(progress)) return records;
+    const startedAt = previous?.startedAt ?? now;
+    const justCompleted = !previous?.completedAt && progress.foundWords.length === totalWords;
+
+    const record: DailyRecord = {
+        dateKey,
+        progress,
+        startedAt,
+        completedAt: justCompleted ? now : previous?.completedAt ?? null,
+        solveTimeMs: justCompleted ? progress.elapsedMs : previous?.solveTimeMs ?? null,
+    };
+    const updated = { ...records, [dateKey]: record };
+    writeJson(DAILY_KEY, { version: DAILY_SCHEMA_VERSION, records: updated });
+    return updated;
+};
+
+/**
+ * Computes the current and longest runs of consecutive solved days
+ *
+ * The current streak still counts if today isn't solved yet but yesterday was.
+ */
+export const getStreaks = (records: DailyRecords, todayKey: string = toDateKey()): Streaks => {
+    const solvedDays = Object.values(records)
+        .filter((record) => record.completedAt !== null)
+        .map((record) => toDayNumber(record.dateKey))
+        .sort((a, b) => a - b);
+
+    let max = 0;
+    let run = 0;
+    solvedDays.forEach((day, i) => {
+        run = i > 0 && day === solvedDays[i - 1] + 1 ? run + 1 : 1;
+        max = Math.max(max, run);
+    });
+
+    const solved = new Set(solvedDays);
+    let day = toDayNumber(todayKey);
+    if (!solved.has(day)) day--;
+    let current = 0;
+    while (solved.has(day)) {
+        current++;
+        day--;
+    }
+
+    return { current, max };
+};
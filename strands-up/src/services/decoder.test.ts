@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { DecodeError, decodeGenerateResponse } from './decoder';
+import { validateBoard } from '../utils/validation';
+// A response recorded from POST /generate (via the mock server, which answers with the
+// backend's payload), and copies of it with a field reshaped or removed
+import recorded from './__fixtures__/generate-response.json';
+import badPathEntry from './__fixtures__/generate-response-bad-path-entry.json';
+import lowerCaseRcPaths from './__fixtures__/generate-response-r-c-lower-case.json';
+import missingPlacementInfo from './__fixtures__/generate-response-missing-placement-info.json';
+import raggedBoard from './__fixtures__/generate-response-ragged-board.json';
+import rowColPaths from './__fixtures__/generate-response-row-col-paths.json';
+
+/**
+ * Decodes a payload that should fail, returning the error
+ */
+const decodeError = (data: unknown): DecodeError => {
+    try {
+        decodeGenerateResponse(data);
+    } catch (error) {
+        if (error instanceof DecodeError) return error;
+        throw error;
+    }
+    throw new Error('Expected the payload to be rejected');
+};
+
+describe('decodeGenerateResponse', () => {
+    it('decodes a recorded response into a playable board', () => {
+        const board = decodeGenerateResponse(recorded);
+        expect(board).toEqual({
+            grid: recorded.board,
+            words: recorded.words,
+            spangram: recorded.spangram,
+            theme: recorded.theme,
+            placementInfo: recorded.placement_info,
+        });
+        expect(validateBoard(board).valid).toBe(true);
+    });
+
+    it('turns {row, col} path entries into positions', () => {
+        expect(decodeGenerateResponse(rowColPaths)).toEqual(decodeGenerateResponse(recorded));
+    });
+
+    it('turns {r, c} path entries into positions and upper-cases letters and words', () => {
+        expect(decodeGenerateResponse(lowerCaseRcPaths)).toEqual(decodeGenerateResponse(recorded));
+    });
+
+    it('removes spaces and hyphens from answers', () => {
+        const data = structuredClone(recorded);
+        data.spangram = 'Season-ing';
+        data.placement_info.words[3].word = 'di ll';
+        const board = decodeGenerateResponse(data);
+        expect(board.spangram).toBe('SEASONING');
+        expect(board.placementInfo.words[3].word).toBe('DILL');
+    });
+
+    it('rejects a response without placement_info', () => {
+        const error = decodeError(missingPlacementInfo);
+        expect(error.path).toBe('placement_info');
+        expect(error.message).toBe('placement_info: expected an object, got undefined');
+    });
+
+    it('rejects a ragged board, naming the short row', () => {
+        const error = decodeError(raggedBoard);
+        expect(error.path).toBe('board[2]');
+        expect(error.message).toBe('board[2]: expected a row of 6 cells, got an array of 5');
+    });
+
+    it('names the path entry that is not a position', () => {
+        const error = decodeError(badPathEntry);
+        expect(error.path).toBe('placement_info.words[2].path[3]');
+        expect(error.message).toBe('placement_info.words[2].path[3]: expected a [row, col] pair, got an array of 1');
+    });
+
+    it('names the coordinate missing from a path entry', () => {
+        const data = structuredClone(rowColPaths);
+        data.placement_info.spangram.path[1] = { row: 1 } as never;
+        expect(decodeError(data).path).toBe('placement_info.spangram.path[1].col');
+
+        data.placement_info.spangram.path[1] = { c: 4 } as never;
+        expect(decodeError(data).path).toBe('placement_info.spangram.path[1].r');
+    });
+
+    it('names a field removed from the response', () => {
+        const data: Record<string, unknown> = structuredClone(recorded);
+        delete data.words;
+        expect(decodeError(data).path).toBe('words');
+
+        const placement: Record<string, unknown> = structuredClone(recorded.placement_info.words[5]);
+        delete placement.word;
+        expect(decodeError({ ...recorded, placement_info: { ...recorded.placement_info, words: [placement] } }).path)
+            .toBe('placement_info.words[0].word');
+    });
+
+    it('names a cell that is not a single letter', () => {
+        const data = structuredClone(lowerCaseRcPaths);
+        data.board[1][2] = 'ke';
+        expect(decodeError(data).path).toBe('board[1][2]');
+    });
+
+    it('rejects a body that is not an object', () => {
+        expect(decodeError(null).message).toBe('response: expected an object, got null');
+    });
+});
@@ -0,0 +1,160 @@
+/**
+ * Response Decoder
+ *
+ * This file contains runtime decoders that turn untrusted JSON (backend responses,
+ * puzzle files) into a Board. Instead of letting a missing field crash deep inside
+ * GameBoard, decoding fails with a DecodeError naming the offending field,
+ * e.g. `placement_info.words[2].path[3]`.
+ *
+ * Decoding also normalizes the data: letters and words are upper-cased (with spaces and
+ * hyphens removed from multi-word answers), and path entries given as [row, col],
+ * {row, col} or {r, c} become Position tuples.
+ */
+
+import { Board, PlacementInfo, Position, WordPlacement } from '../types/game';
+
+export class DecodeError extends Error {
+    readonly path: string;
+
+    constructor(path: string, expected: string, actual: unknown) {
+        super(`${path || 'response'}: expected ${expected}, got ${describe(actual)}`);
+        this.name = 'DecodeError';
+        this.path = path;
+    }
+}
+
+const describe = (value: unknown): string => {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return `an array of ${value.length}`;
+    if (typeof value === 'string') return `"${value.length > 20 ? `${value.slice(0, 20)}...` : value}"`;
+    return typeof value === 'object' ? 'an object' : String(value);
+};
+
+const field = (path: string, key: string | number): string =>
+    typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+const decodeObject = (value: unknown, path: string): Record<string, unknown> => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new DecodeError(path, 'an object', value);
+    }
+    return value as Record<string, unknown>;
+};
+
+const decodeArray = (value: unknown, path: string, { nonEmpty = false } = {}): unknown[] => {
+    if (!Array.isArray(value) || (nonEmpty && value.length === 0)) {
+        throw new DecodeError(path, nonEmpty ? 'a non-empty array' : 'an array', value);
+    }
+    return value;
+};
+
+const decodeString = (value: unknown, path: string): string => {
+    if (typeof value !== 'string' || value.trim() === '') {
+        throw new DecodeError(path, 'a non-empty string', value);
+    }
+    return value.trim();
+};
+
+const decodeWord = (value: unknown, path: string): string => {
+    const word = decodeString(value, path).replace(/[\s-]+/g, '');
+    if (!/^[a-z]+$/i.test(word)) {
+        throw new DecodeError(path, 'a word made of letters', value);
+    }
+    return word.toUpperCase();
+};
+
+const decodeIndex = (value: unknown, path: string): number => {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+        throw new DecodeError(path, 'a non-negative integer', value);
+    }
+    return value;
+};
+
+const decodePosition = (value: unknown, path: string): Position => {
+    if (Array.isArray(value)) {
+        if (value.length !== 2) {
+            throw new DecodeError(path, 'a [row, col] pair', value);
+        }
+        return [decodeIndex(value[0], field(path, 0)), decodeIndex(value[1], field(path, 1))];
+    }
+
+    const object = decodeObject(value, path);
+    // A missing coordinate is named in the entry's own style, {row, col} unless it uses r or c
+    const usesShortKeys = ('r' in object || 'c' in object) && !('row' in object || 'col' in object);
+    const [rowKey, colKey] = usesShortKeys ? ['r', 'c'] : ['row', 'col'];
+    return [decodeIndex(object[rowKey], field(path, rowKey)), decodeIndex(object[colKey], field(path, colKey))];
+};
+
+const decodePlacement = (value: unknown, path: string): WordPlacement => {
+    const object = decodeObject(value, path);
+    const pathPath = field(path, 'path');
+    return {
+        word: decodeWord(object.word, field(path, 'word')),
+        path: decodeArray(object.path, pathPath, { nonEmpty: true })
+            .map((position, i) => decodePosition(position, field(pathPath, i))),
+    };
+};
+
+const decodePlacementInfo = (value: unknown, path: string): PlacementInfo => {
+    const object = decodeObject(value, path);
+    const wordsPath = field(path, 'words');
+    return {
+        spangram: decodePlacement(object.spangram, field(path, 'spangram')),
+        words: decodeArray(object.words, wordsPath)
+            .map((placement, i) => decodePlacement(placement, field(wordsPath, i))),
+    };
+};
+
+const decodeGrid = (value: unknown, path: string): string[][] => {
+    const rows = decodeArray(value, path, { nonEmpty: true });
+    let width = -1;
+    return rows.map((row, r) => {
+        const rowPath = field(path, r);
+        const cells = decodeArray(row, rowPath, { nonEmpty: true });
+        if (width === -1) width = cells.length;
+        if (cells.length !== width) {
+            throw new DecodeError(rowPath, `a row of ${width} cells`, row);
+        }
+        return cells.map((cell, c) => {
+            if (typeof cell !== 'string' || !/^[a-z]$/i.test(cell)) {
+                throw new DecodeError(field(rowPath, c), 'a single letter', cell);
+            }
+            return cell.toUpperCase();
+        });
+    });
+};
+
+/**
+ * Decodes the backend's response to POST /generate
+ *
+ * @param data - The parsed JSON body
+ * @returns The Board
+ * @throws DecodeError naming the first field that doesn't match
+ */
+export const decodeGenerateResponse = (data: unknown): Board => {
+    const object = decodeObject(data, '');
+    return {
+        grid: decodeGrid(object.board, 'board'),
+        words: decodeArray(object.words, 'words').map((word, i) => decodeWord(word, field('words', i))),
+        spangram: decodeWord(object.spangram, 'spangram'),
+        theme: decodeString(object.theme, 'theme'),
+        placementInfo: decodePlacementInfo(object.placement_info, 'placement_info'),
+    };
+};
+
+/**
+ * Decodes a Board stored as JSON (e.g. in a puzzle file)
+ *
+ * @param data - The parsed JSON
+ * @returns The Board
+ * @throws DecodeError naming the first field that doesn't match
+ */
+export const decodeBoardData = (data: unknown): Board => {
+    const object = decodeObject(data, '');
+    return {
+        grid: decodeGrid(object.grid, 'grid'),
+        words: decodeArray(object.words, 'words').map((word, i) => decodeWord(word, field('words', i))),
+        spangram: decodeWord(object.spangram, 'spangram'),
+        theme: decodeString(object.theme, 'theme'),
+        placementInfo: decodePlacementInfo(object.placementInfo, 'placementInfo'),
+    };
+};
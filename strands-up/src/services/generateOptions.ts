@@ -0,0 +1,128 @@
+/**
+ * Generation Options
+ *
+ * This file defines the options a player can set for a new puzzle (seed word or theme
+ * hint, grid size, word count, word length and difficulty), their limits, and how they
+ * are remembered between sessions and sent to the backend.
+ */
+
+import { Difficulty } from '../types/game';
+import { DEFAULT_COLS, DEFAULT_ROWS } from '../utils/generator';
+import { readJson, STORAGE_PREFIX, writeJson } from './storage';
+
+const GENERATE_OPTIONS_KEY = `${STORAGE_PREFIX}:generate-options`;
+
+export const DIFFICULTY_LABELS: Record<Difficulty, string> = {
+    easy: 'Easy',
+    medium: 'Medium',
+    hard: 'Hard',
+};
+
+export interface GenerateOptions {
+    /** A word or theme hint to build the puzzle around; empty for a surprise */
+    seedWord: string;
+    rows: number;
+    cols: number;
+    /** Number of theme words, not counting the spangram */
+    minWords: number;
+    maxWords: number;
+    minWordLength: number;
+    maxWordLength: number;
+    difficulty: Difficulty;
+}
+
+export const DEFAULT_GENERATE_OPTIONS: GenerateOptions = {
+    seedWord: '',
+    rows: DEFAULT_ROWS,
+    cols: DEFAULT_COLS,
+    minWords: 5,
+    maxWords: 8,
+    minWordLength: 4,
+    maxWordLength: 8,
+    difficulty: 'medium',
+};
+
+/**
+ * Allowed range for each numeric option
+ */
+export const GENERATE_OPTION_LIMITS = {
+    rows: { min: 4, max: 12 },
+    cols: { min: 4, max: 10 },
+    words: { min: 2, max: 12 },
+    wordLength: { min: 3, max: 12 },
+} as const;
+
+/**
+ * The request body expected by POST /generate
+ */
+export interface GenerateRequestBody {
+    seed_word: string | null;
+    rows: number;
+    cols: number;
+    min_words: number;
+    max_words: number;
+    min_word_length: number;
+    max_word_length: number;
+    difficulty: Difficulty;
+}
+
+const clamp = (value: unknown, { min, max }: { min: number; max: number }, fallback: number): number =>
+    typeof value === 'number' && Number.isFinite(value)
+        ? Math.min(max, Math.max(min, Math.round(value)))
+        : fallback;
+
+/**
+ * Fills in missing options and brings the rest within their limits
+ *
+ * Ranges given the wrong way round are swapped rather than rejected.
+ */
+export const normalizeGenerateOptions = (options: Partial<GenerateOptions>): GenerateOptions => {
+    const defaults = DEFAULT_GENERATE_OPTIONS;
+    const { rows, cols, words, wordLength } = GENERATE_OPTION_LIMITS;
+    const minWords = clamp(options.minWords, words, defaults.minWords);
+    const maxWords = clamp(options.maxWords, words, defaults.maxWords);
+    const minWordLength = clamp(options.minWordLength, wordLength, defaults.minWordLength);
+    const maxWordLength = clamp(options.maxWordLength, wordLength, defaults.maxWordLength);
+
+    return {
+        seedWord: typeof options.seedWord === 'string' ? options.seedWord : defaults.seedWord,
+        rows: clamp(options.rows, rows, defaults.rows),
+        cols: clamp(options.cols, cols, defaults.cols),
+        minWords: Math.min(minWords, maxWords),
+        maxWords: Math.max(minWords, maxWords),
+        minWordLength: Math.min(minWordLength, maxWordLength),
+        maxWordLength: Math.max(minWordLength, maxWordLength),
+        difficulty: options.difficulty && options.difficulty in DIFFICULTY_LABELS
+            ? options.difficulty
+            : defaults.difficulty,
+    };
+};
+
+/**
+ * Builds the snake_case request body for POST /generate
+ */
+export const toGenerateRequestBody = (options: Partial<GenerateOptions>): GenerateRequestBody => {
+    const normalized = normalizeGenerateOptions(options);
+    return {
+        seed_word: normalized.seedWord.trim() || null,
+        rows: normalized.rows,
+        cols: normalized.cols,
+        min_words: normalized.minWords,
+        max_words: normalized.maxWords,
+        min_word_length: normalized.minWordLength,
+        max_word_length: normalized.maxWordLength,
+        difficulty: normalized.difficulty,
+    };
+};
+
+/**
+ * Loads the options used last time, or the defaults
+ */
+export const loadGenerateOptions = (): GenerateOptions => {
+    const stored = readJson(GENERATE_OPTIONS_KEY);
+    return normalizeGenerateOptions(stored && typeof stored === 'object' ? stored as Partial<GenerateOptions> : {});
+};
+
+export const saveGenerateOptions = (options: GenerateOptions) => {
+    writeJson(GENERATE_OPTIONS_KEY, options);
+};
@@ -0,0 +1,113 @@
+/**
+ * Mock Server
+ *
+ * This file contains an in-memory stand-in for the game backend, exposed as a fetch
+ * implementation. It answers POST /generate with the same snake_case payload as the
+ * real backend, built from the bundled puzzles by the offline generator, so the whole
+ * request and mapping path can run without a network.
+ *
+ * The seed word and grid size are honoured; word count and length limits pick among
+ * the bundled puzzles when one matches, and difficulty is ignored.
+ */
+
+import { DAILY_PUZZLES, PuzzleDefinition } from '../data/dailyPuzzles';
+import { Board } from '../types/game';
+import { generateBoard } from '../utils/generator';
+import { createRandom } from '../utils/random';
+import { GenerateResponse } from './api';
+import { GenerateRequestBody, toGenerateRequestBody } from './generateOptions';
+
+export const MOCK_API_URL = 'http://mock.strands-up.local/api/game';
+
+export interface MockServerOptions {
+    /** Simulated response delay */
+    latencyMs?: number;
+    /** Seed for repeatable puzzle selection */
+    seed?: string | number;
+}
+
+const jsonResponse = (status: number, body: unknown): Response =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' },
+    });
+
+const delay = (ms: number, signal?: AbortSignal | null): Promise<void> =>
+    new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new DOMException('The request was aborted', 'AbortError'));
+            return;
+        }
+        const timeout = setTimeout(resolve, ms);
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timeout);
+            reject(new DOMException('The request was aborted', 'AbortError'));
+        }, { once: true });
+    });
+
+/**
+ * Creates a fetch implementation that serves generated puzzles
+ *
+ * @param options - Latency and seed
+ * @returns A fetch-compatible function
+ */
+export const createMockServer = (options: MockServerOptions = {}): typeof fetch => {
+    const { latencyMs = 300, seed = Date.now() } = options;
+    const random = createRandom(seed);
+
+    return async (input, init) => {
+        await delay(latencyMs, init?.signal);
+
+        const url = new URL(input instanceof Request ? input.url : String(input));
+        if ((init?.method ?? 'GET').toUpperCase() !== 'POST' || !url.pathname.endsWith('/generate')) {
+            return jsonResponse(404, { detail: 'Not found' });
+        }
+
+        const authorization = new Headers(init?.headers).get('Authorization') ?? '';
+        if (!/^Bearer \S+/.test(authorization)) {
+            return jsonResponse(401, { detail: 'Missing API key' });
+        }
+
+        const body: Partial<GenerateRequestBody> = JSON.parse(String(init?.body ?? '{}'));
+        const { seed_word: seedWord, rows, cols, min_words, max_words, min_word_length, max_word_length } = {
+            ...toGenerateRequestBody({}),
+            ...body,
+        };
+
+        // Only puzzles with exactly one letter per cell fit the requested grid
+        const fitting = DAILY_PUZZLES.filter((puzzle) =>
+            [puzzle.spangram, ...puzzle.words].join('').length === rows * cols
+        );
+        if (fitting.length === 0) {
+            return jsonResponse(422, { detail: `The mock server has no puzzles for a ${rows}x${cols} grid` });
+        }
+
+        const preferred = [
+            (puzzle: PuzzleDefinition) => typeof seedWord === 'string' && seedWord !== '' &&
+                [puzzle.theme, puzzle.spangram, ...puzzle.words]
+                    .some((text) => text.toLowerCase().includes(seedWord.toLowerCase())),
+            (puzzle: PuzzleDefinition) =>
+                puzzle.words.length >= min_words && puzzle.words.length <= max_words &&
+                puzzle.words.every((word) => word.length >= min_word_length && word.length <= max_word_length),
+        ];
+        const candidates = preferred
+            .map((matches) => fitting.filter(matches))
+            .find((matching) => matching.length > 0) ?? fitting;
+        const puzzle = candidates[Math.floor(random() * candidates.length)];
+        let board: Board;
+        try {
+            board = generateBoard({ ...puzzle, rows, cols, seed: random() });
+        } catch (error) {
+            return jsonResponse(422, { detail: error instanceof Error ? error.message : 'Could not lay out the puzzle' });
+        }
+
+        const payload: GenerateResponse = {
+            board: board.grid,
+            words: board.words,
+            spangram: board.spangram,
+            theme: board.theme,
+            placement_info: board.placementInfo,
+        };
+        return jsonResponse(200, payload);
+    };
+};
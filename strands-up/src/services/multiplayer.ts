@@ -0,0 +1,190 @@
+/**
+ * Multiplayer Service
+ *
+ * This file connects to the relay server (server/relay.js) for multiplayer games.
+ * A session sends the opening host or join message and hands every server message to
+ * the caller. If the connection drops, it reconnects with growing delays and rejoins the
+ * same seat. Found words are re-sent after rejoining until the server acknowledges them
+ * (whether or not they counted); selections are only sent while connected. A room's board
+ * comes from whoever hosted it, so it is decoded and validated before it is played.
+ */
+
+import { Board } from '../types/game';
+import { ClientMessage, RoomState, ServerMessage } from '../types/multiplayer';
+import { validateBoard } from '../utils/validation';
+import { decodeBoardData } from './decoder';
+
+export const DEFAULT_RELAY_URL = import.meta.env.VITE_RELAY_URL ?? 'ws://localhost:8787';
+
+export type ConnectionStatus = 'connecting' | 'connected' | 'reconnecting' | 'closed';
+
+/**
+ * Wait before each reconnect attempt; the session gives up after the last one
+ */
+const RECONNECT_DELAYS_MS = [500, 1000, 2000, 4000, 8000, 8000, 8000, 8000];
+
+export type OpeningMessage = Extract<ClientMessage, { type: 'host' | 'join' }>;
+
+export interface MultiplayerHandlers {
+    onMessage: (message: ServerMessage) => void;
+    /** `error` explains why a session closed, if it didn't close by leaving */
+    onStatusChange: (status: ConnectionStatus, error?: string) => void;
+}
+
+export interface MultiplayerSession {
+    send: (message: ClientMessage) => void;
+    /** Gives up the seat and closes the connection */
+    leave: () => void;
+}
+
+interface Seat {
+    room: string;
+    playerId: string;
+    token: string;
+}
+
+/**
+ * Opens a multiplayer session
+ *
+ * @param opening - The host or join message sent once connected
+ * @param handlers - Receive server messages and connection status changes
+ * @param url - The relay server's WebSocket URL
+ * @returns The session
+ */
+export const connectToRelay = (
+    opening: OpeningMessage,
+    handlers: MultiplayerHandlers,
+    url: string = DEFAULT_RELAY_URL
+): MultiplayerSession => {
+    let socket: WebSocket | null = null;
+    let seat: Seat | null = null;
+    let isSeated = false;
+    let attempt = 0;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let hasEnded = false;
+    /** Found words the server hasn't acknowledged yet */
+    let unconfirmed: Extract<ClientMessage, { type: 'found' }>[] = [];
+
+    const end = (error?: string) => {
+        if (hasEnded) return;
+        hasEnded = true;
+        clearTimeout(reconnectTimer);
+        socket?.close();
+        handlers.onStatusChange('closed', error);
+    };
+
+    const open = () => {
+        if (!seat) handlers.onStatusChange('connecting');
+        const ws = new WebSocket(url);
+        socket = ws;
+        isSeated = false;
+
+        ws.onopen = () => {
+            ws.send(JSON.stringify(seat ? { type: 'rejoin', ...seat } : opening));
+        };
+
+        ws.onmessage = (event) => {
+            if (hasEnded) return;
+            let message: ServerMessage;
+            try {
+                message = JSON.parse(String(event.data));
+            } catch {
+                return;
+            }
+
+            if (message.type === 'welcome') {
+                seat = { room: message.room.code, playerId: message.playerId, token: message.token };
+                isSeated = true;
+                attempt = 0;
+                handlers.onStatusChange('connected');
+                unconfirmed.forEach((found) => ws.send(JSON.stringify(found)));
+            } else if (message.type === 'found-ack') {
+                unconfirmed = unconfirmed.filter(({ word }) => word !== message.word);
+            }
+            handlers.onMessage(message);
+            if (message.type === 'error' && message.fatal) {
+                end(message.message);
+            }
+        };
+
+        ws.onclose = () => {
+            if (hasEnded || socket !== ws) return;
+            if (!seat) {
+                end(`Could not reach the game server at ${url}`);
+            } else if (attempt >= RECONNECT_DELAYS_MS.length) {
+                end('Lost the connection to the game server');
+            } else {
+                handlers.onStatusChange('reconnecting');
+                reconnectTimer = setTimeout(open, RECONNECT_DELAYS_MS[attempt++]);
+            }
+        };
+    };
+
+    open();
+
+    return {
+        send: (message) => {
+            if (hasEnded) return;
+            if (message.type === 'found') unconfirmed.push(message);
+            if (socket?.readyState === WebSocket.OPEN && isSeated) {
+                socket.send(JSON.stringify(message));
+            }
+        },
+        leave: () => {
+            if (socket?.readyState === WebSocket.OPEN && isSeated) {
+                socket.send(JSON.stringify({ type: 'leave' }));
+            }
+            end();
+        },
+    };
+};
+
+/**
+ * Checks that a room's board can be played
+ *
+ * @param data - The board from the server's welcome message
+ * @returns The decoded board
+ * @throws DecodeError for a malformed board, or Error describing the first inconsistency
+ */
+export const decodeRoomBoard = (data: unknown): Board => {
+    const board = decodeBoardData(data);
+    const { valid, errors } = validateBoard(board);
+    if (!valid) throw new Error(errors[0].message);
+    return board;
+};
+
+/**
+ * Applies a server message to the local copy of the room
+ *
+ * @param room - The room so far, or null before the welcome
+ * @param message - The message from the server
+ * @returns The updated room
+ */
+export const applyServerMessage = (room: RoomState | null, message: ServerMessage): RoomState | null => {
+    if (message.type === 'welcome') return message.room;
+    if (!room) return room;
+
+    switch (message.type) {
+        case 'player-joined':
+            return { ...room, players: [...room.players.filter(({ id }) => id !== message.player.id), message.player] };
+        case 'player-status':
+            return {
+                ...room,
+                players: room.players.map((player) =>
+                    player.id === message.playerId ? { ...player, connected: message.connected } : player
+                ),
+            };
+        case 'player-left':
+            return { ...room, players: room.players.filter(({ id }) => id !== message.playerId) };
+        case 'progress': {
+            const { find } = message;
+            return {
+                ...room,
+                players: room.players.map((player) => (player.id === message.player.id ? message.player : player)),
+                finds: find && !room.finds.some(({ word }) => word === find.word) ? [...room.finds, find] : room.finds,
+            };
+        }
+        default:
+            return room;
+    }
+};
@@ -0,0 +1,49 @@
+/**
+ * Puzzle Analysis Service
+ *
+ * This file checks a new board for alternate solutions without stalling the page. The
+ * search runs in a Web Worker (analysisWorker.ts); where workers aren't available it waits
+ * for the browser to be idle and runs with the solver's interactive caps instead.
+ */
+
+import { Board } from '../types/game';
+import { analyzePuzzle, INTERACTIVE_SOLVER_OPTIONS, PuzzleAnalysis } from '../utils/solver';
+
+/**
+ * Runs a task once the browser is idle
+ *
+ * @returns A function that cancels the task if it hasn't run yet
+ */
+const whenIdle = (task: () => void): (() => void) => {
+    if (typeof requestIdleCallback === 'function') {
+        const handle = requestIdleCallback(task);
+        return () => cancelIdleCallback(handle);
+    }
+    const handle = setTimeout(task, 0);
+    return () => clearTimeout(handle);
+};
+
+/**
+ * Analyzes a board in the background
+ *
+ * @param board - The board to analyze
+ * @param onResult - Receives the analysis, unless cancelled first
+ * @returns A function that cancels the analysis
+ */
+export const analyzeInBackground = (board: Board, onResult: (analysis: PuzzleAnalysis) => void): (() => void) => {
+    if (typeof Worker === 'undefined') {
+        return whenIdle(() => onResult(analyzePuzzle(board, INTERACTIVE_SOLVER_OPTIONS)));
+    }
+
+    const worker = new Worker(new URL('./analysisWorker.ts', import.meta.url), { type: 'module' });
+    worker.addEventListener('message', (event: MessageEvent<PuzzleAnalysis>) => {
+        onResult(event.data);
+        worker.terminate();
+    });
+    worker.addEventListener('error', (event) => {
+        console.error('Error analyzing puzzle:', event.message);
+        worker.terminate();
+    });
+    worker.postMessage(board);
+    return () => worker.terminate();
+};
@@ -0,0 +1,149 @@
+/**
+ * Puzzle Sources
+ *
+ * This file defines where boards come from. GameContainer asks a PuzzleSource for a
+ * board without knowing whether it is the hosted backend, a backend on a custom URL
+ * (e.g. a local stand-in during development), a JSON puzzle file or the mock server.
+ */
+
+import { Board } from '../types/game';
+import { DEFAULT_API_URL, generateGame, RequestProgress } from './api';
+import { ApiKeyProvider } from './apiKeyManager';
+import { DecodeError, decodeBoardData, decodeGenerateResponse } from './decoder';
+import { GenerateOptions } from './generateOptions';
+import { createMockServer, MOCK_API_URL } from './mockServer';
+import { readJson, STORAGE_PREFIX, writeJson } from './storage';
+
+const SOURCE_CONFIG_KEY = `${STORAGE_PREFIX}:source`;
+
+export interface GenerateRequest {
+    keys: ApiKeyProvider;
+    /** Puzzle options; sources that serve fixed puzzles ignore them */
+    options?: Partial<GenerateOptions>;
+    signal?: AbortSignal;
+    onProgress?: (progress: RequestProgress) => void;
+}
+
+export interface PuzzleSource {
+    label: string;
+    requiresApiKey: boolean;
+    generate: (request: GenerateRequest) => Promise<Board>;
+}
+
+export type PuzzleSourceKind = 'remote' | 'file' | 'mock';
+
+export interface PuzzleSourceConfig {
+    kind: PuzzleSourceKind;
+    /** Base URL for the remote source */
+    baseUrl: string;
+}
+
+export const DEFAULT_SOURCE_CONFIG: PuzzleSourceConfig = {
+    kind: 'remote',
+    baseUrl: DEFAULT_API_URL,
+};
+
+export const SOURCE_LABELS: Record<PuzzleSourceKind, string> = {
+    remote: 'Backend',
+    file: 'Puzzle file',
+    mock: 'Mock server (offline)',
+};
+
+/**
+ * A backend reached over HTTP
+ *
+ * @param baseUrl - Base URL of the game API
+ * @param fetchImpl - fetch implementation (defaults to the browser's)
+ */
+export const createRemoteSource = (baseUrl: string, fetchImpl?: typeof fetch): PuzzleSource => ({
+    label: `Backend at ${baseUrl}`,
+    requiresApiKey: true,
+    generate: ({ keys, options, signal, onProgress }) =>
+        generateGame(keys, options, { baseUrl, fetch: fetchImpl, signal, onProgress }),
+});
+
+/**
+ * The in-memory mock server, going through the same request path as the real backend
+ */
+export const createMockSource = (): PuzzleSource => {
+    const source = createRemoteSource(MOCK_API_URL, createMockServer());
+    return {
+        ...source,
+        label: SOURCE_LABELS.mock,
+        requiresApiKey: false,
+        generate: (request) => source.generate({ ...request, keys: { getApiKey: () => 'mock' } }),
+    };
+};
+
+/**
+ * Decodes one puzzle file entry, in either Board or backend format
+ */
+const toBoard = (entry: unknown, fileName: string): Board => {
+    try {
+        return entry && typeof entry === 'object' && 'placement_info' in entry
+            ? decodeGenerateResponse(entry)
+            : decodeBoardData(entry);
+    } catch (error) {
+        if (error instanceof DecodeError) {
+            throw new Error(`${fileName} is not a valid puzzle file (${error.message})`);
+        }
+        throw error;
+    }
+};
+
+/**
+ * A local JSON file holding one board or an array of boards
+ *
+ * Entries may be Boards (as exported by this app) or raw backend payloads.
+ * Each call returns a random entry from the file.
+ */
+export const createFileSource = (file: File): PuzzleSource => ({
+    label: `${SOURCE_LABELS.file}: ${file.name}`,
+    requiresApiKey: false,
+    generate: async () => {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(await file.text());
+        } catch {
+            throw new Error(`${file.name} is not valid JSON`);
+        }
+
+        const entries: unknown[] = Array.isArray(parsed) ? parsed : [parsed];
+        if (entries.length === 0) {
+            throw new Error(`${file.name} contains no puzzles`);
+        }
+        return toBoard(entries[Math.floor(Math.random() * entries.length)], file.name);
+    },
+});
+
+/**
+ * Loads the last chosen source (the file itself can't be remembered, only that a file was used)
+ */
+export const loadSourceConfig = (): PuzzleSourceConfig => {
+    const stored = readJson(SOURCE_CONFIG_KEY);
+    if (stored && typeof stored === 'object' && 'kind' in stored && typeof stored.kind === 'string' && stored.kind in SOURCE_LABELS) {
+        return { ...DEFAULT_SOURCE_CONFIG, ...(stored as Partial<PuzzleSourceConfig>) };
+    }
+    return DEFAULT_SOURCE_CONFIG;
+};
+
+export const saveSourceConfig = (config: PuzzleSourceConfig) => {
+    writeJson(SOURCE_CONFIG_KEY, config);
+};
+
+/**
+ * Creates the source for a configuration
+ *
+ * @param file - The chosen puzzle file, required by the file source
+ * @returns The source, or null if the file source has no file yet
+ */
+export const createPuzzleSource = (config: PuzzleSourceConfig, file: File | null): PuzzleSource | null => {
+    switch (config.kind) {
+        case 'remote':
+            return createRemoteSource(config.baseUrl || DEFAULT_API_URL);
+        case 'file':
+            return file ? createFileSource(file) : null;
+        case 'mock':
+            return createMockSource();
+    }
+};
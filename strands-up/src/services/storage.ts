@@ -0,0 +1,206 @@
+/**
+ * Storage Service
+ *
+ * This file contains functions for saving in-progress games to localStorage and restoring them.
+ * Every stored record carries a schema version so older formats can be migrated when loaded.
+ */
+
+import { Board, GameProgress } from '../types/game';
+import { hashSeed } from '../utils/random';
+
+export const STORAGE_PREFIX = 'strands-up';
+const GAME_KEY_PREFIX = `${STORAGE_PREFIX}:game:`;
+const INDEX_KEY = `${STORAGE_PREFIX}:games`;
+const MAX_SAVED_GAMES = 50;
+
+export const STORAGE_SCHEMA_VERSION = 2;
+
+export interface SavedGame {
+    version: typeof STORAGE_SCHEMA_VERSION;
+    id: string;
+    board: Board;
+    progress: GameProgress;
+    createdAt: number;
+    updatedAt: number;
+}
+
+export interface SavedGameSummary {
+    id: string;
+    theme: string;
+    foundCount: number;
+    totalWords: number;
+    createdAt: number;
+    updatedAt: number;
+}
+
+/**
+ * Version 1 saved games predate the hint log, wrong-guess count and play time
+ */
+interface SavedGameV1 extends Omit<SavedGame, 'version' | 'progress'> {
+    version: 1;
+    progress: Partial<GameProgress>;
+}
+
+interface SavedGameIndex {
+    version: typeof STORAGE_SCHEMA_VERSION;
+    currentId: string | null;
+    games: SavedGameSummary[];
+}
+
+export const emptyProgress = (): GameProgress => ({
+    foundWords: [],
+    foundCells: [],
+    nonThemeWords: [],
+    hints: 0,
+    activeHint: null,
+    hintsUsedAt: [],
+    wrongGuesses: 0,
+    elapsedMs: 0,
+});
+
+/**
+ * Fills in progress fields added after version 1 of the stored format
+ */
+export const migrateProgress = (progress: Partial<GameProgress>): GameProgress => ({
+    ...emptyProgress(),
+    ...progress,
+});
+
+/**
+ * Computes a stable identifier for a board from its contents
+ */
+export const hashBoard = (board: Board): string => {
+    const { grid, words, spangram, theme, placementInfo } = board;
+    const text = JSON.stringify([grid, words, spangram, theme, placementInfo]);
+    return hashSeed(text).toString(36).padStart(7, '0') + text.length.toString(36);
+};
+
+/**
+ * Reads and parses a JSON value from localStorage, returning null if it is missing or unreadable
+ */
+export const readJson = (key: string): unknown => {
+    try {
+        const raw = localStorage.getItem(key);
+        return raw === null ? null : JSON.parse(raw);
+    } catch (error) {
+        console.error(`Error reading ${key} from storage:`, error);
+        return null;
+    }
+};
+
+/**
+ * Serializes a value to localStorage, logging (not throwing) if storage is full or unavailable
+ */
+export const writeJson = (key: string, value: unknown) => {
+    try {
+        localStorage.setItem(key, JSON.stringify(value));
+    } catch (error) {
+        console.error(`Error writing ${key} to storage:`, error);
+    }
+};
+
+/**
+ * Upgrades a stored game to the current schema, or returns null if it can't be read
+ */
+const migrateSavedGame = (raw: unknown): SavedGame | null => {
+    if (!raw || typeof raw !== 'object' || !('version' in raw)) return null;
+
+    switch (raw.version) {
+        case 1: {
+            const game = raw as SavedGameV1;
+            return { ...game, version: STORAGE_SCHEMA_VERSION, progress: migrateProgress(game.progress) };
+        }
+        case STORAGE_SCHEMA_VERSION:
+            return raw as SavedGame;
+        default:
+            return null;
+    }
+};
+
+const migrateIndex = (raw: unknown): SavedGameIndex => {
+    // The index layout is unchanged since version 1
+    if (raw && typeof raw === 'object' && 'version' in raw && (raw.version === 1 || raw.version === STORAGE_SCHEMA_VERSION)) {
+        return { ...(raw as SavedGameIndex), version: STORAGE_SCHEMA_VERSION };
+    }
+    return { version: STORAGE_SCHEMA_VERSION, currentId: null, games: [] };
+};
+
+const readIndex = (): SavedGameIndex => migrateIndex(readJson(INDEX_KEY));
+
+const summarize = ({ id, board, progress, createdAt, updatedAt }: SavedGame): SavedGameSummary => ({
+    id,
+    theme: board.theme,
+    foundCount: progress.foundWords.length,
+    totalWords: board.words.length + 1,
+    createdAt,
+    updatedAt,
+});
+
+/**
+ * Loads a saved game by id
+ *
+ * @returns The saved game, or null if it doesn't exist or can't be migrated
+ */
+export const loadGame = (id: string): SavedGame | null => migrateSavedGame(readJson(GAME_KEY_PREFIX + id));
+
+/**
+ * Saves a board and its progress, and marks it as the game to resume on reload
+ *
+ * @returns The saved game
+ */
+export const saveGame = (board: Board, progress: GameProgress): SavedGame => {
+    const id = hashBoard(board);
+    const now = Date.now();
+    const game: SavedGame = {
+        version: STORAGE_SCHEMA_VERSION,
+        id,
+        board,
+        progress,
+        createdAt: loadGame(id)?.createdAt ?? now,
+        updatedAt: now,
+    };
+    writeJson(GAME_KEY_PREFIX + id, game);
+
+    const index = readIndex();
+    const games = [summarize(game), ...index.games.filter((summary) => summary.id !== id)];
+    games.slice(MAX_SAVED_GAMES).forEach((summary) => localStorage.removeItem(GAME_KEY_PREFIX + summary.id));
+    writeJson(INDEX_KEY, { ...index, currentId: id, games: games.slice(0, MAX_SAVED_GAMES) });
+
+    return game;
+};
+
+/**
+ * Opens a board for play, keeping any progress saved for it earlier
+ *
+ * @returns The saved game for the board
+ */
+export const openGame = (board: Board): SavedGame => {
+    const progress = loadGame(hashBoard(board))?.progress ?? emptyProgress();
+    return saveGame(board, progress);
+};
+
+/**
+ * Lists saved games, most recently played first
+ */
+export const listSavedGames = (): SavedGameSummary[] => readIndex().games;
+
+/**
+ * Loads the game that was being played when the page was last open
+ */
+export const loadCurrentGame = (): SavedGame | null => {
+    const { currentId } = readIndex();
+    return currentId ? loadGame(currentId) : null;
+};
+
+/**
+ * Deletes a saved game
+ */
+export const deleteSavedGame = (id: string) => {
+    localStorage.removeItem(GAME_KEY_PREFIX + id);
+    const index = readIndex();
+    writeJson(INDEX_KEY, {
+        ...index,
+        currentId: index.currentId === id ? null : index.currentId,
+        games: index.games.filter((summary) => summary.id !== id),
+    });
+};
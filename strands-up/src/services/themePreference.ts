@@ -0,0 +1,30 @@
+/**
+ * Theme Preference
+ *
+ * This file remembers which colour theme the player picked on this device. `system`
+ * (the default) follows the operating system's light/dark and contrast settings.
+ */
+
+import { THEME_LABELS, ThemeName } from '../utils/theme';
+import { readJson, STORAGE_PREFIX, writeJson } from './storage';
+
+const THEME_KEY = `${STORAGE_PREFIX}:theme`;
+
+export type ThemePreference = ThemeName | 'system';
+
+export const PREFERENCE_LABELS: Record<ThemePreference, string> = {
+    system: 'System',
+    ...THEME_LABELS,
+};
+
+/**
+ * Reads the saved preference, falling back to `system` if there is none or it is unreadable
+ */
+export const loadThemePreference = (): ThemePreference => {
+    const saved = readJson(THEME_KEY);
+    return typeof saved === 'string' && saved in PREFERENCE_LABELS ? (saved as ThemePreference) : 'system';
+};
+
+export const saveThemePreference = (preference: ThemePreference) => {
+    writeJson(THEME_KEY, preference);
+};
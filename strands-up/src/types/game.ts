@@ -22,4 +22,52 @@ export interface Board {
     spangram: string;
     theme: string;
     placementInfo: PlacementInfo;
-} 
\ No newline at end of file
+}
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export interface ActiveHint {
+    word: string;
+    level: 1 | 2;
+}
+
+/**
+ * A step the player takes that can be undone: `select` sets the selection to `cells`,
+ * `submit` checks `cells` and names the theme word it found, if any
+ */
+export type GameCommand =
+    | { type: 'select'; cells: Position[] }
+    | { type: 'deselect' }
+    | { type: 'submit'; cells: Position[]; word: string | null };
+
+/**
+ * An entry in the move log: a command, an undo/redo, or a spent hint
+ * (spending a hint can't be undone and clears the undo history)
+ */
+export type GameMove = (
+    | GameCommand
+    | { type: 'undo' }
+    | { type: 'redo' }
+    | { type: 'hint'; word: string }
+) & {
+    /** Play time when the move was made */
+    elapsedMs: number;
+};
+
+export interface GameProgress {
+    /** Found theme words, in the order they were found */
+    foundWords: string[];
+    foundCells: Position[];
+    nonThemeWords: string[];
+    hints: number;
+    activeHint: ActiveHint | null;
+    /** For each hint used, how many words had been found when it was used */
+    hintsUsedAt: number[];
+    wrongGuesses: number;
+    /** Active play time; final once every word is found */
+    elapsedMs: number;
+    /** The board's placements re-routed along the paths the player found; absent while unchanged */
+    placementInfo?: PlacementInfo;
+    /** Every move made, for replaying the game; absent for games saved before moves were logged */
+    moves?: GameMove[];
+}
@@ -0,0 +1,80 @@
+/**
+ * Multiplayer Types
+ *
+ * This file contains the message protocol spoken with the relay server (server/relay.js).
+ * Messages are JSON objects with a `type`, sent as WebSocket text frames.
+ */
+
+import { Board, Position } from './game';
+
+/**
+ * `coop`: everyone solves one shared board; `race`: everyone solves their own copy
+ */
+export type MultiplayerMode = 'coop' | 'race';
+
+export interface RoomPlayer {
+    id: string;
+    name: string;
+    /** Colour of the player's selection trail and name */
+    colour: string;
+    /** False while the player is reconnecting */
+    connected: boolean;
+    /** Theme words the player found, in order */
+    foundWords: string[];
+    /** Time from the start of the room until the player found every word (race mode) */
+    finishedAtMs: number | null;
+}
+
+/**
+ * A word found on the shared board in co-op mode
+ */
+export interface SharedFind {
+    word: string;
+    cells: Position[];
+    playerId: string;
+}
+
+export interface RoomState {
+    code: string;
+    mode: MultiplayerMode;
+    board: Board;
+    hostId: string;
+    players: RoomPlayer[];
+    /** Words found so far in co-op mode (always empty in race mode) */
+    finds: SharedFind[];
+}
+
+export type ClientMessage =
+    | { type: 'host'; name: string; mode: MultiplayerMode; board: Board }
+    | { type: 'join'; room: string; name: string }
+    /** Sent after a dropped connection, with the token from `welcome` */
+    | { type: 'rejoin'; room: string; playerId: string; token: string }
+    | { type: 'select'; cells: Position[] }
+    | { type: 'found'; word: string; cells: Position[] }
+    | { type: 'leave' };
+
+export type ServerMessage =
+    | { type: 'welcome'; playerId: string; token: string; room: RoomState }
+    | { type: 'player-joined'; player: RoomPlayer }
+    | { type: 'player-status'; playerId: string; connected: boolean }
+    | { type: 'player-left'; playerId: string }
+    /** Another player's current selection (co-op mode) */
+    | { type: 'selection'; playerId: string; cells: Position[] }
+    /** A player found a word; `find` is only sent in co-op mode */
+    | { type: 'progress'; player: RoomPlayer; find: SharedFind | null }
+    /**
+     * Answers every `found` message; `counted` is false for a repeat, a word another player
+     * found first (co-op mode) or cells that don't spell the word
+     */
+    | { type: 'found-ack'; word: string; counted: boolean }
+    /** `fatal` errors end the session, e.g. an unknown room code */
+    | { type: 'error'; message: string; fatal: boolean };
+
+/**
+ * Another player's current selection, drawn in their colour
+ */
+export interface PeerSelection {
+    playerId: string;
+    colour: string;
+    cells: Position[];
+}
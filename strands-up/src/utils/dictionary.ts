@@ -0,0 +1,66 @@
+/**
+ * Dictionary
+ *
+ * This file loads the bundled English word list used to recognise non-theme words and to
+ * judge how common a word is. The list is split into a separate chunk and only fetched
+ * the first time it is needed.
+ */
+
+export const MIN_DICTIONARY_WORD_LENGTH = 4;
+
+/**
+ * SCOWL size tiers bundled with the app, from the most common words to less common ones
+ */
+export const DICTIONARY_TIERS = [10, 20, 35] as const;
+
+export type DictionaryTier = typeof DICTIONARY_TIERS[number];
+
+export interface Dictionary {
+    /** Whether a word of MIN_DICTIONARY_WORD_LENGTH or more letters is listed */
+    has: (word: string) => boolean;
+    /** Whether any listed word starts with the prefix */
+    hasPrefix: (prefix: string) => boolean;
+    /** The most common tier listing the word, or null for words too rare to be listed */
+    tierOf: (word: string) => DictionaryTier | null;
+}
+
+let dictionaryPromise: Promise<Dictionary> | null = null;
+
+/**
+ * Loads the dictionary (common SCOWL tiers 10 to 35), caching it for later calls
+ *
+ * @returns A Promise that resolves to the Dictionary
+ */
+export const loadDictionary = (): Promise<Dictionary> => {
+    if (!dictionaryPromise) {
+        dictionaryPromise = Promise.all([
+            import('wordlist-english/english-words-10.json'),
+            import('wordlist-english/english-words-20.json'),
+            import('wordlist-english/english-words-35.json'),
+        ]).then((tiers) => {
+            const tierByWord = new Map<string, DictionaryTier>();
+            const prefixes = new Set<string>();
+            tiers.forEach(({ default: list }, i) => {
+                list.forEach((word: string) => {
+                    if (!/^[a-z]+$/.test(word) || tierByWord.has(word)) return;
+                    tierByWord.set(word, DICTIONARY_TIERS[i]);
+                    if (word.length >= MIN_DICTIONARY_WORD_LENGTH) {
+                        for (let end = 1; end < word.length; end++) {
+                            prefixes.add(word.slice(0, end));
+                        }
+                    }
+                });
+            });
+            return {
+                has: (word: string) =>
+                    word.length >= MIN_DICTIONARY_WORD_LENGTH && tierByWord.has(word.toLowerCase()),
+                hasPrefix: (prefix: string) => prefixes.has(prefix.toLowerCase()),
+                tierOf: (word: string) => tierByWord.get(word.toLowerCase()) ?? null,
+            };
+        }).catch((error) => {
+            dictionaryPromise = null;
+            throw error;
+        });
+    }
+    return dictionaryPromise;
+};
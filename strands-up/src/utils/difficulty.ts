@@ -0,0 +1,165 @@
+/**
+ * Difficulty Rating
+ *
+ * This file computes a 0-100 difficulty score for a Board from measurable features:
+ * theme word length, decoy words hidden in the grid, alternate paths, how much the
+ * spangram bends and how obscure the theme words are. Each feature is scaled to 0-1
+ * and weighted, and the breakdown is kept so the UI can explain the score.
+ */
+
+import { Board, Difficulty, Position } from '../types/game';
+import { Dictionary, DictionaryTier } from './dictionary';
+import { DIRECTIONS } from './grid';
+import { solvePuzzle } from './solver';
+
+export type DifficultyFactorId = 'word-length' | 'decoys' | 'alternate-paths' | 'spangram-bends' | 'obscurity';
+
+export interface DifficultyFactor {
+    id: DifficultyFactorId;
+    label: string;
+    /** Explains the measurement, e.g. "12 decoy words" */
+    detail: string;
+    /** The feature scaled to 0 (easy) - 1 (hard) */
+    score: number;
+    weight: number;
+}
+
+export interface DifficultyRating {
+    /** 0 (easiest) - 100 (hardest) */
+    score: number;
+    level: Difficulty;
+    factors: DifficultyFactor[];
+}
+
+/**
+ * How hard each dictionary tier makes a word; unlisted words count as 1
+ */
+const TIER_OBSCURITY: Record<DictionaryTier, number> = {
+    10: 0,
+    20: 0.25,
+    35: 0.6,
+};
+
+const clamp01 = (value: number): number => Math.min(1, Math.max(0, value));
+
+const plural = (count: number, noun: string): string => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * Lists the non-theme dictionary words that can be traced in the grid
+ *
+ * @param grid - The letter grid
+ * @param dictionary - The loaded dictionary
+ * @param themeWords - Words to leave out (the theme words and spangram)
+ * @returns The decoy words, lower-cased and sorted
+ */
+export const findDecoyWords = (grid: string[][], dictionary: Dictionary, themeWords: string[]): string[] => {
+    const rows = grid.length;
+    const cols = grid[0]?.length ?? 0;
+    const excluded = new Set(themeWords.map((word) => word.toLowerCase()));
+    const visited = grid.map((row) => row.map(() => false));
+    const decoys = new Set<string>();
+
+    const extend = (row: number, col: number, prefix: string) => {
+        if (row < 0 || row >= rows || col < 0 || col >= cols || visited[row][col]) return;
+        const text = prefix + grid[row][col].toLowerCase();
+        if (dictionary.has(text) && !excluded.has(text)) decoys.add(text);
+        if (!dictionary.hasPrefix(text)) return;
+
+        visited[row][col] = true;
+        DIRECTIONS.forEach(([dr, dc]) => extend(row + dr, col + dc, text));
+        visited[row][col] = false;
+    };
+
+    for (let row = 0; row < rows; row++) {
+        for (let col = 0; col < cols; col++) {
+            extend(row, col, '');
+        }
+    }
+    return [...decoys].sort();
+};
+
+/**
+ * Counts the changes of direction along a path
+ */
+const countBends = (path: Position[]): number =>
+    path.slice(2).filter(([row, col], i) => {
+        const [r0, c0] = path[i];
+        const [r1, c1] = path[i + 1];
+        return row - r1 !== r1 - r0 || col - c1 !== c1 - c0;
+    }).length;
+
+/**
+ * Rates how hard a board is to solve
+ *
+ * @param board - The board to rate
+ * @param dictionary - The loaded dictionary, used for decoys and word obscurity
+ * @returns The score, its difficulty level and the factors behind it
+ */
+export const rateDifficulty = (board: Board, dictionary: Dictionary): DifficultyRating => {
+    const { grid, words, spangram, placementInfo } = board;
+
+    const averageLength = words.reduce((sum, word) => sum + word.length, 0) / Math.max(1, words.length);
+
+    const decoys = findDecoyWords(grid, dictionary, [spangram, ...words]);
+
+    const { paths, tilings, isComplete } = solvePuzzle(grid, spangram, words);
+    const extraPaths = Object.values(paths).reduce((sum, wordPaths) => sum + Math.max(0, wordPaths.length - 1), 0);
+    const extraTilings = Math.max(0, tilings.length - 1);
+
+    const spangramPath = placementInfo.spangram.path;
+    const bends = countBends(spangramPath);
+
+    const obscurities = words.map((word) => {
+        const tier = dictionary.tierOf(word);
+        return tier === null ? 1 : TIER_OBSCURITY[tier];
+    });
+    const unlisted = words.filter((word) => dictionary.tierOf(word) === null);
+    const averageObscurity = obscurities.reduce((sum, value) => sum + value, 0) / Math.max(1, words.length);
+
+    const factors: DifficultyFactor[] = [
+        {
+            id: 'word-length',
+            label: 'Word length',
+            detail: `Theme words average ${averageLength.toFixed(1)} letters`,
+            score: clamp01((averageLength - 4) / 4),
+            weight: 0.2,
+        },
+        {
+            id: 'decoys',
+            label: 'Decoy words',
+            detail: `${plural(decoys.length, 'other word')} can be traced in the grid`,
+            score: clamp01((decoys.length - 150) / 300),
+            weight: 0.25,
+        },
+        {
+            id: 'alternate-paths',
+            label: 'Alternate paths',
+            detail: `${plural(extraPaths, 'extra path')} for theme words, ` +
+                `${plural(extraTilings, 'other solution')}${isComplete ? '' : ' or more'}`,
+            score: clamp01(extraPaths / 30 + extraTilings / 8),
+            weight: 0.15,
+        },
+        {
+            id: 'spangram-bends',
+            label: 'Spangram shape',
+            detail: `The spangram changes direction ${plural(bends, 'time')}`,
+            score: clamp01(bends / Math.max(1, spangramPath.length - 2)),
+            weight: 0.15,
+        },
+        {
+            id: 'obscurity',
+            label: 'Word obscurity',
+            detail: unlisted.length > 0
+                ? `${plural(unlisted.length, 'theme word')} outside the common word list`
+                : 'All theme words are in the common word list',
+            score: averageObscurity,
+            weight: 0.25,
+        },
+    ];
+
+    const totalWeight = factors.reduce((sum, { weight }) => sum + weight, 0);
+    const score = Math.round(100 * factors.reduce((sum, { score: value, weight }) => sum + value * weight, 0) / totalWeight);
+    const level: Difficulty = score < 34 ? 'easy' : score < 67 ? 'medium' : 'hard';
+
+    return { score, level, factors };
+};
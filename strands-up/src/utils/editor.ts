@@ -0,0 +1,95 @@
+/**
+ * Puzzle Editor Model
+ *
+ * This file contains the draft a puzzle author works on in the editor and its conversion
+ * to and from a Board. Authors paint a path for each word; the grid letters follow from
+ * the paths, so a cell only holds a letter once some word's path covers it.
+ */
+
+import { Board, Position } from '../types/game';
+import { DEFAULT_COLS, DEFAULT_ROWS, normalizeWord } from './generator';
+import { BoardValidationError, validateBoard } from './validation';
+
+export interface EditorDraft {
+    theme: string;
+    spangram: string;
+    words: string[];
+    rows: number;
+    cols: number;
+    /** Painted path for each word (and the spangram), keyed by the normalized word */
+    paths: Record<string, Position[]>;
+}
+
+export const emptyDraft = (): EditorDraft => ({
+    theme: '',
+    spangram: '',
+    words: [],
+    rows: DEFAULT_ROWS,
+    cols: DEFAULT_COLS,
+    paths: {},
+});
+
+/**
+ * The spangram followed by the theme words, normalized and without blanks
+ */
+export const draftEntries = (draft: EditorDraft): string[] =>
+    [draft.spangram, ...draft.words].map(normalizeWord).filter((word) => word !== '');
+
+/**
+ * Builds the Board described by a draft; cells no path covers are left blank
+ */
+export const buildBoardFromDraft = (draft: EditorDraft): Board => {
+    const grid = Array.from({ length: draft.rows }, () => new Array<string>(draft.cols).fill(''));
+    const placement = (word: string) => ({ word, path: draft.paths[word] ?? [] });
+
+    draftEntries(draft).forEach((word) => {
+        placement(word).path.forEach(([row, col], i) => {
+            if (grid[row]?.[col] !== undefined) grid[row][col] = word[i];
+        });
+    });
+
+    const spangram = normalizeWord(draft.spangram);
+    const words = draft.words.map(normalizeWord).filter((word) => word !== '');
+    return {
+        grid,
+        words,
+        spangram,
+        theme: draft.theme.trim(),
+        placementInfo: {
+            spangram: placement(spangram),
+            words: words.map(placement),
+        },
+    };
+};
+
+/**
+ * Turns a Board back into an editable draft
+ */
+export const draftFromBoard = (board: Board): EditorDraft => ({
+    theme: board.theme,
+    spangram: board.spangram,
+    words: board.words,
+    rows: board.grid.length,
+    cols: board.grid[0]?.length ?? DEFAULT_COLS,
+    paths: Object.fromEntries(
+        [board.placementInfo.spangram, ...board.placementInfo.words]
+            .map(({ word, path }) => [normalizeWord(word), path])
+    ),
+});
+
+/**
+ * Validates a draft as the Board it would export
+ *
+ * Blank cells are reported once as uncovered rather than also as invalid letters,
+ * and a missing spangram once rather than as an empty, misplaced word.
+ */
+export const validateDraft = (draft: EditorDraft): BoardValidationError[] => {
+    const board = buildBoardFromDraft(draft);
+    const errors = validateBoard(board).errors.filter(({ code, word, position }) =>
+        word !== '' && !(code === 'INVALID_CELL' && position && board.grid[position[0]][position[1]] === '')
+    );
+    if (!board.spangram) {
+        errors.unshift({ code: 'EMPTY_PATH', message: 'The puzzle needs a spangram', word: '' });
+    }
+    return errors;
+};
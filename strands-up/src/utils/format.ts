@@ -0,0 +1,20 @@
+/**
+ * Formatting Utilities
+ *
+ * This file contains helpers for turning raw values into display text.
+ */
+
+/**
+ * Formats a duration as m:ss, or h:mm:ss for an hour or more
+ *
+ * @param ms - The duration in milliseconds
+ */
+export const formatDuration = (ms: number): string => {
+    const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = String(totalSeconds % 60).padStart(2, '0');
+    return hours > 0
+        ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`
+        : `${minutes}:${seconds}`;
+};
@@ -0,0 +1,182 @@
+import { describe, expect, it } from 'vitest';
+import { Position } from '../types/game';
+import { Dictionary } from './dictionary';
+import {
+    addNonThemeWord,
+    GameState,
+    isGameComplete,
+    stepDragPath,
+    stepSelection,
+    submitPath,
+    WORDS_PER_HINT,
+} from './gameEngine';
+import { cellKey, isAdjacent } from './grid';
+
+//   B E E S
+//   T R E E
+//   N O O N
+const grid = [
+    ['B', 'E', 'E', 'S'],
+    ['T', 'R', 'E', 'E'],
+    ['N', 'O', 'O', 'N'],
+];
+
+const row = (index: number): Position[] => [0, 1, 2, 3].map((col) => [index, col]);
+
+const newGame = (): GameState => ({
+    grid,
+    spangram: 'BEES',
+    placements: {
+        spangram: { word: 'BEES', path: row(0) },
+        words: [
+            { word: 'TREE', path: row(1) },
+            { word: 'NOON', path: row(2) },
+        ],
+    },
+    foundWords: new Set(),
+    foundCells: new Set(),
+});
+
+const dictionary = (...words: string[]): Dictionary => ({
+    has: (word) => words.includes(word.toLowerCase()),
+    hasPrefix: (prefix) => words.some((word) => word.startsWith(prefix.toLowerCase())),
+    tierOf: () => 10,
+});
+
+describe('isAdjacent', () => {
+    it('accepts the eight neighbours of a cell', () => {
+        const neighbours: Position[] = [[0, 0], [0, 1], [0, 2], [1, 0], [1, 2], [2, 0], [2, 1], [2, 2]];
+        neighbours.forEach((cell) => expect(isAdjacent([1, 1], cell)).toBe(true));
+    });
+
+    it('rejects the cell itself and cells two steps away', () => {
+        expect(isAdjacent([1, 1], [1, 1])).toBe(false);
+        expect(isAdjacent([1, 1], [1, 3])).toBe(false);
+        expect(isAdjacent([0, 0], [2, 1])).toBe(false);
+    });
+});
+
+describe('stepSelection', () => {
+    it('starts a selection on any cell', () => {
+        expect(stepSelection([], [1, 2], new Set())).toEqual({ type: 'extend', cells: [[1, 2]] });
+    });
+
+    it('extends the selection with an adjacent cell', () => {
+        expect(stepSelection([[0, 0]], [1, 1], new Set())).toEqual({ type: 'extend', cells: [[0, 0], [1, 1]] });
+    });
+
+    it('submits when the last selected cell is clicked again', () => {
+        expect(stepSelection([[0, 0], [0, 1]], [0, 1], new Set())).toEqual({ type: 'submit' });
+    });
+
+    it('clears the selection for a cell that is not adjacent', () => {
+        expect(stepSelection([[0, 0]], [2, 2], new Set())).toEqual({ type: 'clear' });
+    });
+
+    it('clears the selection for a found cell', () => {
+        expect(stepSelection([[0, 0]], [1, 0], new Set([cellKey([1, 0])]))).toEqual({ type: 'clear' });
+    });
+});
+
+describe('stepDragPath', () => {
+    it('adds an adjacent unused cell', () => {
+        expect(stepDragPath([[0, 0]], [0, 1])).toEqual([[0, 0], [0, 1]]);
+    });
+
+    it('drops the last cell when the pointer steps back', () => {
+        expect(stepDragPath([[0, 0], [0, 1], [1, 1]], [0, 1])).toEqual([[0, 0], [0, 1]]);
+    });
+
+    it('ignores the current cell, used cells and cells that are not adjacent', () => {
+        expect(stepDragPath([[0, 0], [0, 1]], [0, 1])).toBeNull();
+        expect(stepDragPath([[0, 0], [0, 1], [1, 1]], [0, 0])).toBeNull();
+        expect(stepDragPath([[0, 0]], [2, 2])).toBeNull();
+    });
+});
+
+describe('submitPath', () => {
+    it('finds a theme word on its stored route', () => {
+        const result = submitPath(newGame(), row(1), null);
+        expect(result).toMatchObject({ type: 'found', word: 'TREE', isSpangram: false, isComplete: false });
+        if (result.type !== 'found') return;
+        expect([...result.foundWords]).toEqual(['TREE']);
+        expect([...result.foundCells]).toEqual(row(1).map(cellKey));
+    });
+
+    it('finds a theme word traced backwards along its stored route', () => {
+        const result = submitPath(newGame(), [...row(2)].reverse(), null);
+        expect(result).toMatchObject({ type: 'found', word: 'NOON' });
+    });
+
+    it('flags the spangram', () => {
+        expect(submitPath(newGame(), row(0), null)).toMatchObject({ type: 'found', word: 'BEES', isSpangram: true });
+    });
+
+    it('accepts another route that leaves the rest of the board solvable, and reroutes the rest', () => {
+        const route: Position[] = [[0, 0], [0, 1], [1, 2], [0, 3]];
+        const result = submitPath(newGame(), route, null);
+        expect(result).toMatchObject({ type: 'found', word: 'BEES' });
+        if (result.type !== 'found') return;
+        expect(result.placements.spangram.path).toEqual(route);
+        expect(result.placements.words.find(({ word }) => word === 'TREE')?.path).toEqual([[1, 0], [1, 1], [0, 2], [1, 3]]);
+    });
+
+    it('misses a route that would leave another word without a place', () => {
+        // Uses every cell next to the B, so BEES can no longer be traced
+        const route: Position[] = [[1, 0], [1, 1], [0, 1], [0, 2]];
+        expect(submitPath(newGame(), route, dictionary('tree'))).toEqual({ type: 'miss', word: 'TREE' });
+    });
+
+    it('reports a dictionary word that is not part of the theme, lower-cased', () => {
+        const beer: Position[] = [[0, 0], [0, 1], [1, 2], [1, 1]];
+        expect(submitPath(newGame(), beer, dictionary('beer'))).toEqual({ type: 'non-theme', word: 'beer' });
+    });
+
+    it('misses words that are not in the dictionary, or while it loads', () => {
+        const beer: Position[] = [[0, 0], [0, 1], [1, 2], [1, 1]];
+        expect(submitPath(newGame(), beer, dictionary('tree'))).toEqual({ type: 'miss', word: 'BEER' });
+        expect(submitPath(newGame(), beer, null)).toEqual({ type: 'miss', word: 'BEER' });
+    });
+
+    it('misses a theme word that was already found', () => {
+        const found = submitPath(newGame(), row(1), null);
+        if (found.type !== 'found') throw new Error('TREE should be found');
+        const state = { ...newGame(), foundWords: found.foundWords, foundCells: found.foundCells };
+        expect(submitPath(state, row(1), null)).toEqual({ type: 'miss', word: 'TREE' });
+    });
+
+    it('ignores an empty path', () => {
+        expect(submitPath(newGame(), [], null)).toEqual({ type: 'empty' });
+    });
+});
+
+describe('addNonThemeWord', () => {
+    it('earns a hint for every WORDS_PER_HINT new words', () => {
+        let words: string[] = [];
+        const earned = ['beer', 'reed', 'seer', 'tees', 'noes', 'sore'].map((word) => {
+            const result = addNonThemeWord(words, word);
+            words = result.nonThemeWords;
+            return result.earnedHint;
+        });
+        expect(WORDS_PER_HINT).toBe(3);
+        expect(earned).toEqual([false, false, true, false, false, true]);
+    });
+
+    it('does not count a repeated word', () => {
+        const result = addNonThemeWord(['beer', 'reed'], 'beer');
+        expect(result).toEqual({ nonThemeWords: ['beer', 'reed'], isRepeat: true, earnedHint: false, progress: 2 });
+    });
+});
+
+describe('isGameComplete', () => {
+    const { placements } = newGame();
+
+    it('is false while a word or the spangram is missing', () => {
+        expect(isGameComplete({ placements, foundWords: new Set(['TREE', 'NOON']) })).toBe(false);
+        expect(isGameComplete({ placements, foundWords: new Set(['BEES', 'TREE']) })).toBe(false);
+    });
+
+    it('is true once every word and the spangram are found', () => {
+        expect(isGameComplete({ placements, foundWords: new Set(['BEES', 'TREE', 'NOON']) })).toBe(true);
+    });
+});
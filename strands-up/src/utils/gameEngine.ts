@@ -0,0 +1,199 @@
+/**
+ * Game Engine
+ *
+ * This file holds the rules of play, free of React and the DOM: how a selection grows,
+ * whether a traced path is a theme word (on its stored route or a workable alternate one),
+ * a valid non-theme word or a miss, and when a game is complete. GameBoard keeps the state
+ * and the messages; every decision about what a move means is made here.
+ */
+
+import { PlacementInfo, Position, WordPlacement } from '../types/game';
+import { Dictionary, MIN_DICTIONARY_WORD_LENGTH } from './dictionary';
+import { cellKey, isAdjacent } from './grid';
+import { INTERACTIVE_SOLVER_OPTIONS, reroutePlacements } from './solver';
+
+/**
+ * Number of non-theme words needed to earn one hint
+ */
+export const WORDS_PER_HINT = 3;
+
+/**
+ * The part of a game the rules need to judge a move
+ */
+export interface GameState {
+    grid: string[][];
+    spangram: string;
+    /** Where each theme word lies; follows any alternate routes the player found */
+    placements: PlacementInfo;
+    foundWords: ReadonlySet<string>;
+    /** Found cells as `row,col` keys */
+    foundCells: ReadonlySet<string>;
+}
+
+export type SubmitResult =
+    /** A new theme word; the sets and placements are the state after finding it */
+    | {
+        type: 'found';
+        word: string;
+        isSpangram: boolean;
+        foundWords: Set<string>;
+        foundCells: Set<string>;
+        placements: PlacementInfo;
+        isComplete: boolean;
+    }
+    /** A dictionary word that isn't part of the theme (lower-cased) */
+    | { type: 'non-theme'; word: string }
+    | { type: 'miss'; word: string }
+    | { type: 'empty' };
+
+export type SelectionStep =
+    | { type: 'submit' }
+    | { type: 'clear' }
+    | { type: 'extend'; cells: Position[] };
+
+/**
+ * Converts a path to a string for comparison and Set storage
+ */
+export const pathToString = (path: Position[]): string => path.map(cellKey).join('|');
+
+/**
+ * Reads the letters along a path
+ */
+export const spellPath = (grid: string[][], cells: Position[]): string =>
+    cells.map(([row, col]) => grid[row][col]).join('');
+
+const samePath = (a: Position[], b: Position[]): boolean => {
+    const path = pathToString(a);
+    return path === pathToString(b) || path === pathToString([...b].reverse());
+};
+
+/**
+ * Lists every theme word with its current path, spangram first
+ */
+export const allPlacements = (state: Pick<GameState, 'placements'>): WordPlacement[] =>
+    [state.placements.spangram, ...state.placements.words];
+
+/**
+ * Whether every theme word and the spangram have been found
+ */
+export const isGameComplete = (state: Pick<GameState, 'placements' | 'foundWords'>): boolean =>
+    allPlacements(state).every(({ word }) => state.foundWords.has(word));
+
+/**
+ * Works out what clicking a cell does to the selection
+ *
+ * @param selection - The selected cells
+ * @param cell - The clicked cell
+ * @param foundCells - Found cells as `row,col` keys
+ * @returns `submit` for the last selected cell, `clear` for a cell that can't extend the
+ * selection, otherwise the extended selection
+ */
+export const stepSelection = (selection: Position[], cell: Position, foundCells: ReadonlySet<string>): SelectionStep => {
+    const lastCell = selection[selection.length - 1];
+    if (lastCell && lastCell[0] === cell[0] && lastCell[1] === cell[1]) {
+        return { type: 'submit' };
+    }
+    if (lastCell && (!isAdjacent(lastCell, cell) || foundCells.has(cellKey(cell)))) {
+        return { type: 'clear' };
+    }
+    return { type: 'extend', cells: [...selection, cell] };
+};
+
+/**
+ * Moves a drag path onto a cell: stepping back onto the previous cell drops the last one,
+ * an adjacent unused cell is added, and anything else leaves the path as it is
+ *
+ * @returns The new path, or null if it didn't change
+ */
+export const stepDragPath = (path: Position[], cell: Position): Position[] | null => {
+    const isCell = (other: Position) => other[0] === cell[0] && other[1] === cell[1];
+    if (isCell(path[path.length - 1])) return null;
+    if (path.length > 1 && isCell(path[path.length - 2])) return path.slice(0, -1);
+    if (!path.some(isCell) && isAdjacent(path[path.length - 1], cell)) return [...path, cell];
+    return null;
+};
+
+/**
+ * Judges a traced path
+ *
+ * A theme word counts on its stored route (either direction) or, if unfound, on any route
+ * that still lets the remaining words fill the remaining cells. That check runs while the
+ * player waits, so it uses the solver's interactive caps and may miss a route on a
+ * pathological grid.
+ *
+ * @param state - The game so far
+ * @param cells - The traced path
+ * @param dictionary - The loaded dictionary, or null while it loads (non-theme words then count as misses)
+ * @returns What the path turned out to be
+ */
+export const submitPath = (state: GameState, cells: Position[], dictionary: Dictionary | null): SubmitResult => {
+    if (cells.length === 0) return { type: 'empty' };
+
+    const selectedWord = spellPath(state.grid, cells);
+    const placements = allPlacements(state);
+    const matches = ({ word }: WordPlacement) => word.toLowerCase() === selectedWord.toLowerCase();
+
+    let placementInfo = state.placements;
+    let found = placements.find((placement) => matches(placement) && samePath(cells, placement.path));
+
+    // A theme word traced along another route counts if the rest of the board stays solvable
+    const rerouted = !found && placements.find((placement) => matches(placement) && !state.foundWords.has(placement.word));
+    if (rerouted) {
+        const fixedPaths = Object.fromEntries(
+            placements
+                .filter(({ word }) => state.foundWords.has(word))
+                .map(({ word, path }) => [word, path])
+        );
+        const result = reroutePlacements(
+            state.grid,
+            state.placements,
+            { ...fixedPaths, [rerouted.word]: cells },
+            INTERACTIVE_SOLVER_OPTIONS
+        );
+        if (result) {
+            placementInfo = result;
+            found = { word: rerouted.word, path: cells };
+        }
+    }
+
+    if (found && !state.foundWords.has(found.word)) {
+        const foundWords = new Set(state.foundWords).add(found.word);
+        const foundCells = new Set(state.foundCells);
+        cells.forEach((cell) => foundCells.add(cellKey(cell)));
+        return {
+            type: 'found',
+            word: found.word,
+            isSpangram: found.word === state.spangram,
+            foundWords,
+            foundCells,
+            placements: placementInfo,
+            isComplete: isGameComplete({ placements: placementInfo, foundWords }),
+        };
+    }
+
+    if (
+        !placements.some(matches) &&
+        selectedWord.length >= MIN_DICTIONARY_WORD_LENGTH &&
+        dictionary?.has(selectedWord)
+    ) {
+        return { type: 'non-theme', word: selectedWord.toLowerCase() };
+    }
+    return { type: 'miss', word: selectedWord };
+};
+
+/**
+ * Counts a non-theme word toward the next hint
+ *
+ * @param nonThemeWords - Non-theme words found so far
+ * @param word - The new word, lower-cased
+ * @returns The updated list, whether the word was a repeat, whether it earned a hint,
+ * and how many words count toward the next hint
+ */
+export const addNonThemeWord = (nonThemeWords: string[], word: string) => {
+    if (nonThemeWords.includes(word)) {
+        return { nonThemeWords, isRepeat: true, earnedHint: false, progress: nonThemeWords.length % WORDS_PER_HINT };
+    }
+    const updated = [...nonThemeWords, word];
+    const progress = updated.length % WORDS_PER_HINT;
+    return { nonThemeWords: updated, isRepeat: false, earnedHint: progress === 0, progress };
+};
@@ -0,0 +1,317 @@
+/**
+ * Game State Store
+ *
+ * This file holds a game's state in one typed object, changed only by a reducer that
+ * handles explicit events. The player's actions come in as events (CellSelected,
+ * SelectionCleared, WordSubmitted, ...); the reducer applies the rules from gameEngine.ts
+ * and emits what they led to (WordFound, GameCompleted, ...). Every event is passed to the
+ * store's subscribers and to anything listening through subscribeToGameEvents, so analytics
+ * or sound effects can follow a game without touching the component that renders it.
+ */
+
+import { ActiveHint, GameProgress, PlacementInfo, Position, WordPlacement } from '../types/game';
+import { Dictionary } from './dictionary';
+import { addNonThemeWord, GameState, isGameComplete, submitPath, WORDS_PER_HINT } from './gameEngine';
+import { cellKey } from './grid';
+
+export interface GameMessage {
+    text: string;
+    type: 'success' | 'info' | null;
+}
+
+export interface PlayState extends GameState {
+    selectedCells: Position[];
+    nonThemeWords: string[];
+    hints: number;
+    activeHint: ActiveHint | null;
+    /** How many words had been found when each hint was spent */
+    hintsUsedAt: number[];
+    wrongGuesses: number;
+    message: GameMessage;
+}
+
+/**
+ * The parts of the state that undo and redo restore (wrong guesses and spent hints stay counted)
+ */
+export type PlaySnapshot = Pick<
+    PlayState,
+    'selectedCells' | 'foundWords' | 'foundCells' | 'nonThemeWords' | 'hints' | 'activeHint' | 'placements'
+>;
+
+/**
+ * Events sent to the store
+ */
+export type GameInput =
+    /** Sets the selection to `cells` */
+    | { type: 'CellSelected'; cells: Position[] }
+    | { type: 'SelectionCleared' }
+    | { type: 'WordSubmitted'; cells: Position[] }
+    /** `roll` (0-1) picks which unfound word a new hint outlines */
+    | { type: 'HintRequested'; roll: number }
+    /** Words found by other players in a shared game */
+    | { type: 'SharedWordsFound'; finds: WordPlacement[] }
+    | { type: 'StateRestored'; snapshot: PlaySnapshot }
+    | { type: 'MessageShown'; message: GameMessage };
+
+/**
+ * Events the store emits as a result
+ */
+export type GameOutcome =
+    | { type: 'WordFound'; word: string; cells: Position[]; isSpangram: boolean; isShared: boolean }
+    | { type: 'GameCompleted' }
+    | { type: 'NonThemeWordFound'; word: string; isRepeat: boolean; earnedHint: boolean }
+    | { type: 'WordRejected'; word: string }
+    | { type: 'HintRevealed'; word: string; level: 1 | 2 };
+
+export type GameEvent = GameInput | GameOutcome;
+
+export type GameEventListener = (event: GameEvent, state: PlayState) => void;
+
+export interface GameStore {
+    getState: () => PlayState;
+    /**
+     * Applies an event
+     *
+     * @returns The event followed by the events it led to
+     */
+    dispatch: (input: GameInput) => GameEvent[];
+    /** Follows every event; returns a function that stops following */
+    subscribe: (listener: GameEventListener) => () => void;
+    /** Supplies the dictionary once loaded (until then non-theme words count as misses) */
+    setDictionary: (dictionary: Dictionary) => void;
+}
+
+export interface PlayBoard {
+    grid: string[][];
+    spangram: string;
+    placementInfo: PlacementInfo;
+}
+
+/**
+ * Builds the starting state for a board, resuming saved progress if there is any
+ */
+export const createPlayState = (board: PlayBoard, progress?: GameProgress): PlayState => ({
+    grid: board.grid,
+    spangram: board.spangram,
+    placements: progress?.placementInfo ?? board.placementInfo,
+    foundWords: new Set(progress?.foundWords),
+    foundCells: new Set(progress?.foundCells.map(cellKey)),
+    selectedCells: [],
+    nonThemeWords: progress?.nonThemeWords ?? [],
+    hints: progress?.hints ?? 0,
+    activeHint: progress?.activeHint ?? null,
+    hintsUsedAt: progress?.hintsUsedAt ?? [],
+    wrongGuesses: progress?.wrongGuesses ?? 0,
+    message: { text: '', type: null },
+});
+
+/**
+ * Copies the parts of the state that undo and redo restore
+ */
+export const takeSnapshot = ({
+    selectedCells,
+    foundWords,
+    foundCells,
+    nonThemeWords,
+    hints,
+    activeHint,
+    placements,
+}: PlayState): PlaySnapshot => ({ selectedCells, foundWords, foundCells, nonThemeWords, hints, activeHint, placements });
+
+const submitWord = (state: PlayState, cells: Position[], dictionary: Dictionary | null): [PlayState, GameOutcome[]] => {
+    const result = submitPath(state, cells, dictionary);
+    switch (result.type) {
+        case 'empty':
+            return [state, []];
+        case 'found':
+            return [
+                {
+                    ...state,
+                    selectedCells: [],
+                    foundWords: result.foundWords,
+                    foundCells: result.foundCells,
+                    placements: result.placements,
+                    activeHint: state.activeHint?.word === result.word ? null : state.activeHint,
+                    message: {
+                        text: result.isSpangram
+                            ? 'Congratulations! You found the spangram!'
+                            : `You found "${result.word}"!`,
+                        type: 'success',
+                    },
+                },
+                [
+                    { type: 'WordFound', word: result.word, cells, isSpangram: result.isSpangram, isShared: false },
+                    ...(result.isComplete ? [{ type: 'GameCompleted' } as const] : []),
+                ],
+            ];
+        case 'non-theme': {
+            const counted = addNonThemeWord(state.nonThemeWords, result.word);
+            const text = counted.isRepeat
+                ? `You already found "${result.word}"`
+                : counted.earnedHint
+                    ? `"${result.word}" isn't a theme word, but you earned a hint!`
+                    : `"${result.word}" isn't a theme word (${counted.progress}/${WORDS_PER_HINT} toward a hint)`;
+            return [
+                {
+                    ...state,
+                    selectedCells: [],
+                    nonThemeWords: counted.nonThemeWords,
+                    hints: counted.earnedHint ? state.hints + 1 : state.hints,
+                    message: { text, type: counted.earnedHint ? 'success' : 'info' },
+                },
+                [{ type: 'NonThemeWordFound', word: result.word, isRepeat: counted.isRepeat, earnedHint: counted.earnedHint }],
+            ];
+        }
+        case 'miss':
+            return [
+                {
+                    ...state,
+                    selectedCells: [],
+                    wrongGuesses: state.wrongGuesses + 1,
+                    message: { text: 'Try again!', type: 'info' },
+                },
+                [{ type: 'WordRejected', word: result.word }],
+            ];
+    }
+};
+
+const revealHint = (state: PlayState, roll: number): [PlayState, GameOutcome[]] => {
+    if (state.hints === 0) return [state, []];
+    const spend = (activeHint: ActiveHint, text: string): [PlayState, GameOutcome[]] => [
+        {
+            ...state,
+            activeHint,
+            hints: state.hints - 1,
+            hintsUsedAt: [...state.hintsUsedAt, state.foundWords.size],
+            message: { text, type: 'info' },
+        },
+        [{ type: 'HintRevealed', ...activeHint }],
+    ];
+
+    const { activeHint, foundWords, placements, spangram } = state;
+    if (activeHint && activeHint.level === 1 && !foundWords.has(activeHint.word)) {
+        return spend({ word: activeHint.word, level: 2 }, 'Hint: the letter order is now shown');
+    }
+
+    const unfound = placements.words.filter(({ word }) => !foundWords.has(word));
+    const candidates = unfound.length > 0
+        ? unfound
+        : foundWords.has(spangram) ? [] : [placements.spangram];
+    if (candidates.length === 0) return [state, []];
+
+    const target = candidates[Math.min(candidates.length - 1, Math.floor(roll * candidates.length))];
+    return spend({ word: target.word, level: 1 }, 'Hint: the cells of a theme word are outlined');
+};
+
+/**
+ * Marks words found elsewhere as found, following the routes they were traced along
+ */
+const addSharedWords = (state: PlayState, finds: WordPlacement[]): [PlayState, GameOutcome[]] => {
+    const newFinds = finds.filter(({ word }) => !state.foundWords.has(word));
+    if (newFinds.length === 0) return [state, []];
+
+    const newCells = new Set(newFinds.flatMap(({ path }) => path.map(cellKey)));
+    const routeOf = (placement: WordPlacement) => newFinds.find(({ word }) => word === placement.word) ?? placement;
+    const next: PlayState = {
+        ...state,
+        foundWords: new Set([...state.foundWords, ...newFinds.map(({ word }) => word)]),
+        foundCells: new Set([...state.foundCells, ...newCells]),
+        placements: { spangram: routeOf(state.placements.spangram), words: state.placements.words.map(routeOf) },
+        selectedCells: state.selectedCells.some((cell) => newCells.has(cellKey(cell))) ? [] : state.selectedCells,
+        activeHint: newFinds.some(({ word }) => word === state.activeHint?.word) ? null : state.activeHint,
+    };
+    const found: GameOutcome[] = newFinds.map(({ word, path }) => ({
+        type: 'WordFound',
+        word,
+        cells: path,
+        isSpangram: word === state.spangram,
+        isShared: true,
+    }));
+    return [next, isGameComplete(next) ? [...found, { type: 'GameCompleted' }] : found];
+};
+
+/**
+ * Applies an event to the game state
+ *
+ * @param state - The state before the event
+ * @param input - The event
+ * @param dictionary - The loaded dictionary, or null while it loads
+ * @returns The new state and the events the input led to
+ */
+export const gameReducer = (
+    state: PlayState,
+    input: GameInput,
+    dictionary: Dictionary | null = null
+): [PlayState, GameOutcome[]] => {
+    switch (input.type) {
+        case 'CellSelected':
+            return [{ ...state, selectedCells: input.cells }, []];
+        case 'SelectionCleared':
+            return [{ ...state, selectedCells: [] }, []];
+        case 'WordSubmitted':
+            return submitWord(state, input.cells, dictionary);
+        case 'HintRequested':
+            return revealHint(state, input.roll);
+        case 'SharedWordsFound':
+            return addSharedWords(state, input.finds);
+        case 'StateRestored':
+            return [{ ...state, ...input.snapshot }, []];
+        case 'MessageShown':
+            return [{ ...state, message: input.message }, []];
+    }
+};
+
+/**
+ * Finds the first event of a type in a list
+ */
+export const findEvent = <T extends GameEvent['type']>(events: GameEvent[], type: T) =>
+    events.find((event): event is Extract<GameEvent, { type: T }> => event.type === type);
+
+const globalListeners = new Set<GameEventListener>();
+
+/**
+ * Follows the events of every game on the page
+ *
+ * @param listener - Called with each event and the state after it
+ * @returns A function that stops following
+ */
+export const subscribeToGameEvents = (listener: GameEventListener): (() => void) => {
+    globalListeners.add(listener);
+    return () => {
+        globalListeners.delete(listener);
+    };
+};
+
+/**
+ * Creates a store for one game
+ *
+ * @param initialState - The starting state, e.g. from createPlayState
+ */
+export const createGameStore = (initialState: PlayState): GameStore => {
+    let state = initialState;
+    let dictionary: Dictionary | null = null;
+    const listeners = new Set<GameEventListener>();
+
+    return {
+        getState: () => state,
+        dispatch: (input) => {
+            const [next, outcomes] = gameReducer(state, input, dictionary);
+            state = next;
+            const events: GameEvent[] = [input, ...outcomes];
+            events.forEach((event) => {
+                listeners.forEach((listener) => listener(event, state));
+                globalListeners.forEach((listener) => listener(event, state));
+            });
+            return events;
+        },
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+        setDictionary: (loaded) => {
+            dictionary = loaded;
+        },
+    };
+};
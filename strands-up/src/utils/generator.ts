@@ -0,0 +1,329 @@
+/**
+ * Offline Board Generator
+ *
+ * This file contains a client-side puzzle generator that builds a playable Board
+ * from a theme, a word list and a spangram without calling the backend.
+ *
+ * Every cell of the generated grid belongs to exactly one word, the spangram
+ * touches two opposite edges, and every word path is made of adjacent cells.
+ */
+
+import { Board, Position, WordPlacement } from '../types/game';
+import { DIRECTIONS } from './grid';
+import { createRandom, RandomSource, shuffle } from './random';
+
+export interface GeneratorOptions {
+    theme: string;
+    words: string[];
+    spangram: string;
+    rows?: number;
+    cols?: number;
+    seed?: string | number;
+    maxAttempts?: number;
+}
+
+export const DEFAULT_ROWS = 8;
+export const DEFAULT_COLS = 6;
+
+const DEFAULT_MAX_ATTEMPTS = 200;
+const STEPS_PER_ATTEMPT = 20000;
+
+/**
+ * Strips everything but letters and upper-cases a word
+ */
+export const normalizeWord = (word: string): string => word.replace(/[^a-z]/gi, '').toUpperCase();
+
+/**
+ * Mutable search state shared by one generation attempt
+ *
+ * `owner` holds the index of the word covering each cell, -1 for free cells
+ * and -2 for cells on the path currently being walked.
+ */
+interface Attempt {
+    rows: number;
+    cols: number;
+    owner: number[][];
+    random: RandomSource;
+    steps: number;
+}
+
+const inBounds = (attempt: Attempt, [row, col]: Position): boolean =>
+    row >= 0 && row < attempt.rows && col >= 0 && col < attempt.cols;
+
+const isFree = (attempt: Attempt, pos: Position): boolean =>
+    inBounds(attempt, pos) && attempt.owner[pos[0]][pos[1]] === -1;
+
+const freeNeighbours = (attempt: Attempt, [row, col]: Position): Position[] =>
+    DIRECTIONS
+        .map(([dr, dc]): Position => [row + dr, col + dc])
+        .filter((pos) => isFree(attempt, pos));
+
+/**
+ * Checks whether a total can be made from a multiset of lengths
+ */
+const canSumTo = (total: number, lengths: number[]): boolean => {
+    const reachable = new Array<boolean>(total + 1).fill(false);
+    reachable[0] = true;
+    lengths.forEach((length) => {
+        for (let sum = total; sum >= length; sum--) {
+            if (reachable[sum - length]) reachable[sum] = true;
+        }
+    });
+    return reachable[total];
+};
+
+/**
+ * Rejects states where some pocket of free cells can no longer be filled
+ */
+const regionsAreFillable = (attempt: Attempt, lengths: number[]): boolean => {
+    const seen = attempt.owner.map((row) => row.map(() => false));
+    for (let row = 0; row < attempt.rows; row++) {
+        for (let col = 0; col < attempt.cols; col++) {
+            if (seen[row][col] || attempt.owner[row][col] !== -1) continue;
+
+            let size = 0;
+            const stack: Position[] = [[row, col]];
+            seen[row][col] = true;
+            while (stack.length > 0) {
+                const current = stack.pop()!;
+                size++;
+                freeNeighbours(attempt, current).forEach(([r, c]) => {
+                    if (!seen[r][c]) {
+                        seen[r][c] = true;
+                        stack.push([r, c]);
+                    }
+                });
+            }
+
+            if (!canSumTo(size, lengths)) return false;
+        }
+    }
+    return true;
+};
+
+/**
+ * Lazily enumerates self-avoiding paths of a given length through free cells
+ *
+ * @param accept - Prunes partial paths; receives the path so far and the cells still to add
+ */
+function* walkPaths(
+    attempt: Attempt,
+    path: Position[],
+    length: number,
+    accept: (path: Position[], remaining: number) => boolean,
+): Generator<Position[]> {
+    if (attempt.steps-- <= 0) return;
+    if (!accept(path, length - path.length)) return;
+    if (path.length === length) {
+        yield path;
+        return;
+    }
+
+    const last = path[path.length - 1];
+    for (const next of shuffle(freeNeighbours(attempt, last), attempt.random)) {
+        attempt.owner[next[0]][next[1]] = -2;
+        yield* walkPaths(attempt, [...path, next], length, accept);
+        attempt.owner[next[0]][next[1]] = -1;
+    }
+}
+
+const claim = (attempt: Attempt, path: Position[], id: number) => {
+    path.forEach(([row, col]) => {
+        attempt.owner[row][col] = id;
+    });
+};
+
+/**
+ * Finds the free cell with the fewest free neighbours, the hardest one to cover
+ */
+const mostConstrainedCell = (attempt: Attempt): Position | null => {
+    let best: Position | null = null;
+    let bestCount = Infinity;
+    for (let row = 0; row < attempt.rows; row++) {
+        for (let col = 0; col < attempt.cols; col++) {
+            if (attempt.owner[row][col] !== -1) continue;
+            const count = freeNeighbours(attempt, [row, col]).length;
+            if (count < bestCount) {
+                best = [row, col];
+                bestCount = count;
+            }
+        }
+    }
+    return best;
+};
+
+/**
+ * Lazily enumerates paths of a given length that cover a free cell
+ *
+ * A cell with at most one free neighbour can only be the end of a path; any other cell may
+ * also sit in the middle, so paths are built by walking `before` cells back from it and then
+ * continuing forward from it. A path and its reverse cover the same cells, so the cell is
+ * never placed past the middle.
+ */
+function* pathsThrough(attempt: Attempt, cell: Position, length: number): Generator<Position[]> {
+    const lastBefore = freeNeighbours(attempt, cell).length <= 1 ? 0 : Math.floor((length - 1) / 2);
+    attempt.owner[cell[0]][cell[1]] = -2;
+    for (let before = 0; before <= lastBefore; before++) {
+        for (const backward of walkPaths(attempt, [cell], before + 1, () => true)) {
+            yield* walkPaths(attempt, [...backward].reverse(), length, () => true);
+        }
+    }
+    attempt.owner[cell[0]][cell[1]] = -1;
+}
+
+/**
+ * Covers every remaining free cell with paths of the remaining lengths
+ *
+ * Each step covers the most constrained free cell with a path of each remaining length in
+ * turn, so every tiling is reachable; the step budget bounds how much of it is searched.
+ *
+ * @returns One path per entry of `lengths` (in the same order), or null if no tiling was found
+ */
+const tileRemaining = (attempt: Attempt, lengths: number[]): Position[][] | null => {
+    const start = mostConstrainedCell(attempt);
+    if (!start) return lengths.length === 0 ? [] : null;
+
+    const tried = new Set<number>();
+    for (const index of shuffle(lengths.map((_, i) => i), attempt.random)) {
+        const length = lengths[index];
+        if (tried.has(length)) continue;
+        tried.add(length);
+
+        const rest = lengths.filter((_, i) => i !== index);
+        for (const path of pathsThrough(attempt, start, length)) {
+            claim(attempt, path, index);
+            const tiling = regionsAreFillable(attempt, rest) ? tileRemaining(attempt, rest) : null;
+            if (tiling) {
+                return [...tiling.slice(0, index), path, ...tiling.slice(index)];
+            }
+            claim(attempt, path, -2);
+        }
+
+        if (attempt.steps <= 0) return null;
+    }
+    return null;
+};
+
+/**
+ * Builds candidate spangram paths that touch two opposite edges of the grid
+ */
+function* spangramPaths(attempt: Attempt, length: number): Generator<Position[]> {
+    const axes = shuffle(
+        (['vertical', 'horizontal'] as const).filter((axis) =>
+            length >= (axis === 'vertical' ? attempt.rows : attempt.cols)
+        ),
+        attempt.random,
+    );
+
+    for (const axis of axes) {
+        const size = axis === 'vertical' ? attempt.rows : attempt.cols;
+        const across = axis === 'vertical' ? attempt.cols : attempt.rows;
+        const coordinate = (pos: Position) => (axis === 'vertical' ? pos[0] : pos[1]);
+
+        const starts = shuffle(
+            Array.from({ length: across }, (_, i): Position =>
+                axis === 'vertical' ? [0, i] : [i, 0]
+            ),
+            attempt.random,
+        );
+
+        for (const start of starts) {
+            attempt.owner[start[0]][start[1]] = -2;
+            yield* walkPaths(attempt, [start], length, (path, remaining) => {
+                const reached = path.some((pos) => coordinate(pos) === size - 1);
+                return reached || size - 1 - coordinate(path[path.length - 1]) <= remaining;
+            });
+            attempt.owner[start[0]][start[1]] = -1;
+        }
+    }
+}
+
+/**
+ * Generates a Board entirely on the client
+ *
+ * @param options - Theme, words, spangram, grid size and an optional seed
+ * @returns A Board whose cells are each covered by exactly one word
+ * @throws Error if the inputs cannot fill the grid or no layout is found
+ */
+export const generateBoard = (options: GeneratorOptions): Board => {
+    const rows = options.rows ?? DEFAULT_ROWS;
+    const cols = options.cols ?? DEFAULT_COLS;
+    const spangram = normalizeWord(options.spangram);
+    const words = options.words.map(normalizeWord);
+
+    if (spangram.length < Math.min(rows, cols)) {
+        throw new Error(`Spangram "${spangram}" is too short to span a ${rows}x${cols} grid`);
+    }
+    const shortWord = words.find((word) => word.length < 2);
+    if (shortWord !== undefined) {
+        throw new Error(`Word "${shortWord}" needs at least 2 letters`);
+    }
+    const totalLetters = [spangram, ...words].reduce((sum, word) => sum + word.length, 0);
+    if (totalLetters !== rows * cols) {
+        throw new Error(
+            `Words contain ${totalLetters} letters but a ${rows}x${cols} grid has ${rows * cols} cells`
+        );
+    }
+
+    const random = createRandom(options.seed ?? `${options.theme}|${spangram}|${words.join(',')}`);
+    const lengths = words.map((word) => word.length);
+    const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+
+    for (let i = 0; i < maxAttempts; i++) {
+        const attempt: Attempt = {
+            rows,
+            cols,
+            owner: Array.from({ length: rows }, () => new Array<number>(cols).fill(-1)),
+            random,
+            steps: STEPS_PER_ATTEMPT,
+        };
+
+        for (const spangramPath of spangramPaths(attempt, spangram.length)) {
+            claim(attempt, spangramPath, words.length);
+            const tiling = regionsAreFillable(attempt, lengths) ? tileRemaining(attempt, lengths) : null;
+            if (tiling) {
+                return buildBoard(options.theme, spangram, spangramPath, words, tiling, random);
+            }
+            claim(attempt, spangramPath, -2);
+            if (attempt.steps <= 0) break;
+        }
+    }
+
+    throw new Error(`Could not fit the words into a ${rows}x${cols} grid`);
+};
+
+/**
+ * Writes the letters of each word along its path and assembles the Board
+ */
+const buildBoard = (
+    theme: string,
+    spangram: string,
+    spangramPath: Position[],
+    words: string[],
+    paths: Position[][],
+    random: RandomSource,
+): Board => {
+    const orient = (path: Position[]) => (random() < 0.5 ? path : [...path].reverse());
+
+    const spangramPlacement: WordPlacement = { word: spangram, path: orient(spangramPath) };
+    const wordPlacements: WordPlacement[] = words.map((word, i) => ({ word, path: orient(paths[i]) }));
+
+    const grid: string[][] = [];
+    [spangramPlacement, ...wordPlacements].forEach(({ word, path }) => {
+        path.forEach(([row, col], i) => {
+            grid[row] = grid[row] ?? [];
+            grid[row][col] = word[i];
+        });
+    });
+
+    return {
+        grid,
+        words,
+        spangram,
+        theme,
+        placementInfo: {
+            spangram: spangramPlacement,
+            words: wordPlacements,
+        },
+    };
+};
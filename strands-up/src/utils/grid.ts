@@ -0,0 +1,33 @@
+/**
+ * Grid Helpers
+ *
+ * This file contains the cell geometry shared by the generator, solver, validation,
+ * share links and the game rules: the eight neighbouring directions, adjacency and the
+ * `row,col` keys cells are stored under in Sets and Maps.
+ */
+
+import { Position } from '../types/game';
+
+/**
+ * Offsets to the eight neighbours of a cell (diagonals included); share links encode a
+ * path as indexes into this list, so its order must not change
+ */
+export const DIRECTIONS: readonly Position[] = [
+    [-1, -1], [-1, 0], [-1, 1],
+    [0, -1], [0, 1],
+    [1, -1], [1, 0], [1, 1],
+];
+
+/**
+ * Checks if two cells are adjacent (including diagonals)
+ */
+export const isAdjacent = ([row1, col1]: Position, [row2, col2]: Position): boolean => {
+    const rowDiff = Math.abs(row1 - row2);
+    const colDiff = Math.abs(col1 - col2);
+    return rowDiff <= 1 && colDiff <= 1 && !(rowDiff === 0 && colDiff === 0);
+};
+
+/**
+ * Converts a cell to its `row,col` key
+ */
+export const cellKey = ([row, col]: Position): string => `${row},${col}`;
@@ -0,0 +1,143 @@
+/**
+ * Grid Layout
+ *
+ * This file works out the size of the letter grid from the space available and turns
+ * grid coordinates into pixel geometry: cell centres, the cell under a point and the
+ * bubble outline drawn along a path. Everything is measured from the grid's top-left
+ * corner, so the geometry stays aligned however the page is scrolled or zoomed.
+ */
+
+import { Position } from '../types/game';
+
+export interface GridLayout {
+    rows: number;
+    cols: number;
+    /** Width and height of one cell, in pixels */
+    cellSize: number;
+    /** Space between neighbouring cells, in pixels */
+    gap: number;
+    /** Size of the whole grid, in pixels */
+    width: number;
+    height: number;
+}
+
+/**
+ * Cell size used before the container has been measured
+ */
+export const DEFAULT_CELL_SIZE = 40;
+
+/**
+ * Cells never shrink below this (the grid scrolls instead) or grow beyond the maximum
+ */
+export const MIN_CELL_SIZE = 24;
+export const MAX_CELL_SIZE = 56;
+
+/**
+ * Gap between cells as a fraction of the cell size
+ */
+const GAP_RATIO = 0.1;
+
+export const MIN_ZOOM = 1;
+export const MAX_ZOOM = 3;
+
+/**
+ * Lays out a grid with cells of a given size
+ */
+const layoutWithCellSize = (rows: number, cols: number, cellSize: number): GridLayout => {
+    const gap = Math.round(cellSize * GAP_RATIO);
+    return {
+        rows,
+        cols,
+        cellSize,
+        gap,
+        width: cols * cellSize + (cols - 1) * gap,
+        height: rows * cellSize + (rows - 1) * gap,
+    };
+};
+
+/**
+ * Sizes the cells so the grid fills the available width
+ *
+ * @param availableWidth - Width of the container in pixels, or 0 if it hasn't been measured
+ * @param rows - Number of rows
+ * @param cols - Number of columns
+ * @param zoom - Pinch zoom factor applied on top of the fitted size
+ * @returns The grid layout
+ */
+export const computeGridLayout = (availableWidth: number, rows: number, cols: number, zoom = 1): GridLayout => {
+    let cellSize = availableWidth > 0
+        ? Math.floor(availableWidth / (cols + (cols - 1) * GAP_RATIO))
+        : DEFAULT_CELL_SIZE;
+    cellSize = Math.min(MAX_CELL_SIZE, Math.max(MIN_CELL_SIZE, cellSize));
+    // Rounding the gaps can push the grid a pixel or two past the edge
+    while (availableWidth > 0 && cellSize > MIN_CELL_SIZE && layoutWithCellSize(rows, cols, cellSize).width > availableWidth) {
+        cellSize--;
+    }
+    return layoutWithCellSize(rows, cols, Math.round(cellSize * zoom));
+};
+
+/**
+ * Gets the centre of a cell, relative to the grid's top-left corner
+ */
+export const cellCenter = (layout: GridLayout, [row, col]: Position): { x: number; y: number } => ({
+    x: col * (layout.cellSize + layout.gap) + layout.cellSize / 2,
+    y: row * (layout.cellSize + layout.gap) + layout.cellSize / 2,
+});
+
+/**
+ * Finds the cell under a point relative to the grid's top-left corner
+ *
+ * @param layout - The grid layout
+ * @param x - Horizontal offset in pixels
+ * @param y - Vertical offset in pixels
+ * @param hitRatio - Fraction of the cell (measured from its centre) that counts as a hit
+ * @returns The cell, or null for a gap, the outer edge of a cell or a point outside the grid
+ */
+export const cellAtPoint = (layout: GridLayout, x: number, y: number, hitRatio = 1): Position | null => {
+    const pitch = layout.cellSize + layout.gap;
+    const row = Math.floor(y / pitch);
+    const col = Math.floor(x / pitch);
+    if (row < 0 || row >= layout.rows || col < 0 || col >= layout.cols) return null;
+
+    const center = cellCenter(layout, [row, col]);
+    const reach = (layout.cellSize * hitRatio) / 2;
+    if (Math.abs(x - center.x) > reach || Math.abs(y - center.y) > reach) return null;
+    return [row, col];
+};
+
+/**
+ * Builds an SVG path outlining a bubble around each cell of a path, joined by tubes
+ *
+ * @param layout - The grid layout
+ * @param cells - The cells in order
+ * @returns The path data, or an empty string for fewer than two cells
+ */
+export const bubblePath = (layout: GridLayout, cells: Position[]): string => {
+    if (cells.length < 2) return '';
+
+    const points = cells.map((cell) => cellCenter(layout, cell));
+    const radius = layout.cellSize * 0.36;
+    const halfTubeWidth = (layout.cellSize * 0.4) / 2;
+
+    return points.map((point, i) => {
+        let path = `M ${point.x} ${point.y - radius} ` +
+            `A ${radius} ${radius} 0 1 0 ${point.x} ${point.y + radius} ` +
+            `A ${radius} ${radius} 0 1 0 ${point.x} ${point.y - radius} `;
+
+        // Connect to the next cell with a tube of rounded ends
+        const next = points[i + 1];
+        if (next) {
+            const dx = next.x - point.x;
+            const dy = next.y - point.y;
+            const distance = Math.sqrt(dx * dx + dy * dy);
+            const nx = (-dy / distance) * halfTubeWidth;
+            const ny = (dx / distance) * halfTubeWidth;
+            path += `M ${point.x + nx} ${point.y + ny} ` +
+                `L ${next.x + nx} ${next.y + ny} ` +
+                `A ${halfTubeWidth} ${halfTubeWidth} 0 0 1 ${next.x - nx} ${next.y - ny} ` +
+                `L ${point.x - nx} ${point.y - ny} ` +
+                `A ${halfTubeWidth} ${halfTubeWidth} 0 0 1 ${point.x + nx} ${point.y + ny} `;
+        }
+        return path;
+    }).join('');
+};
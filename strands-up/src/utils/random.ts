@@ -0,0 +1,56 @@
+/**
+ * Seeded Random Utilities
+ *
+ * This file contains a small deterministic pseudo-random number generator
+ * so that anything built from a seed (such as a generated board) can be reproduced.
+ */
+
+/**
+ * A function returning a pseudo-random float in the range [0, 1)
+ */
+export type RandomSource = () => number;
+
+/**
+ * Hashes a string or number seed into an unsigned 32-bit integer (FNV-1a)
+ *
+ * @param seed - Any string or number
+ * @returns An unsigned 32-bit integer
+ */
+export const hashSeed = (seed: string | number): number => {
+    const text = String(seed);
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+/**
+ * Creates a seeded random source (mulberry32)
+ *
+ * @param seed - The seed; the same seed always yields the same sequence
+ * @returns A RandomSource
+ */
+export const createRandom = (seed: string | number): RandomSource => {
+    let state = hashSeed(seed);
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+/**
+ * Returns a shuffled copy of the given items (Fisher-Yates)
+ */
+export const shuffle = <T>(items: readonly T[], random: RandomSource): T[] => {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+};
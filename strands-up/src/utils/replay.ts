@@ -0,0 +1,110 @@
+/**
+ * Game Replay
+ *
+ * This file turns a game's move log into frames that can be stepped through.
+ * Undo and redo are replayed with the same history rules as GameBoard: each command
+ * can be undone, redo is lost after a new command, and a spent hint clears the history.
+ */
+
+import { GameCommand, GameMove, Position } from '../types/game';
+
+export interface ReplayFrame {
+    /** The move that led to this frame; null for the empty starting grid */
+    move: GameMove | null;
+    selectedCells: Position[];
+    foundCells: Position[];
+    foundWords: string[];
+}
+
+type ReplayState = Omit<ReplayFrame, 'move'>;
+
+/**
+ * Reads the letters along a path
+ */
+const spell = (grid: string[][], cells: Position[]): string =>
+    cells.map(([row, col]) => grid[row]?.[col] ?? '').join('');
+
+/**
+ * Describes a move in a few words, e.g. `found "COMET"`
+ *
+ * @param move - The move (or command) to describe
+ * @param grid - The letter grid, used to spell selections
+ */
+export const describeMove = (move: GameMove | GameCommand, grid: string[][]): string => {
+    switch (move.type) {
+        case 'select':
+            return `selected ${spell(grid, move.cells)}`;
+        case 'deselect':
+            return 'cleared the selection';
+        case 'submit':
+            return move.word ? `found "${move.word}"` : `tried "${spell(grid, move.cells)}"`;
+        case 'undo':
+            return 'undid a move';
+        case 'redo':
+            return 'redid a move';
+        case 'hint':
+            return 'used a hint';
+    }
+};
+
+/**
+ * Rebuilds the game state after each move
+ *
+ * @param moves - The move log
+ * @returns One frame for the starting grid plus one per move
+ */
+export const buildReplayFrames = (moves: GameMove[]): ReplayFrame[] => {
+    let state: ReplayState = { selectedCells: [], foundCells: [], foundWords: [] };
+    let past: ReplayState[] = [];
+    let future: ReplayState[] = [];
+    const frames: ReplayFrame[] = [{ move: null, ...state }];
+
+    const apply = (next: ReplayState) => {
+        past.push(state);
+        future = [];
+        state = next;
+    };
+
+    moves.forEach((move) => {
+        switch (move.type) {
+            case 'select':
+                apply({ ...state, selectedCells: move.cells });
+                break;
+            case 'deselect':
+                apply({ ...state, selectedCells: [] });
+                break;
+            case 'submit':
+                apply(move.word
+                    ? {
+                        selectedCells: [],
+                        foundCells: [...state.foundCells, ...move.cells],
+                        foundWords: [...state.foundWords, move.word],
+                    }
+                    : { ...state, selectedCells: [] });
+                break;
+            case 'undo': {
+                const previous = past.pop();
+                if (previous) {
+                    future.push(state);
+                    state = previous;
+                }
+                break;
+            }
+            case 'redo': {
+                const next = future.pop();
+                if (next) {
+                    past.push(state);
+                    state = next;
+                }
+                break;
+            }
+            case 'hint':
+                past = [];
+                future = [];
+                break;
+        }
+        frames.push({ move, ...state });
+    });
+
+    return frames;
+};
@@ -0,0 +1,63 @@
+/**
+ * Result Summary
+ *
+ * This file builds the spoiler-free summary of a finished game: the order in which
+ * words were found, shown as emoji the way the NYT Strands share text does.
+ */
+
+import { formatDuration } from './format';
+
+export type ResultStep = 'word' | 'spangram' | 'hint';
+
+export const RESULT_EMOJI: Record<ResultStep, string> = {
+    word: '🔵',
+    spangram: '🟡',
+    hint: '💡',
+};
+
+const EMOJI_PER_ROW = 4;
+
+export interface GameResult {
+    theme: string;
+    foundWords: string[];
+    spangram: string;
+    hintsUsedAt: number[];
+    wrongGuesses: number;
+    elapsedMs: number;
+}
+
+/**
+ * Lists found words and used hints in the order they happened
+ */
+export const getResultSteps = ({ foundWords, spangram, hintsUsedAt }: GameResult): ResultStep[] => {
+    const steps: ResultStep[] = [];
+    foundWords.forEach((word, i) => {
+        hintsUsedAt.filter((count) => count === i).forEach(() => steps.push('hint'));
+        steps.push(word === spangram ? 'spangram' : 'word');
+    });
+    hintsUsedAt.filter((count) => count >= foundWords.length).forEach(() => steps.push('hint'));
+    return steps;
+};
+
+/**
+ * Builds the copyable share text, e.g.
+ *
+ *     Strands Up
+ *     “Fruit bowl”
+ *     🔵🔵🟡🔵
+ *     🔵💡🔵🔵
+ *     ⏱ 3:12 · ❌ 2
+ */
+export const buildShareText = (result: GameResult): string => {
+    const emoji = getResultSteps(result).map((step) => RESULT_EMOJI[step]);
+    const rows: string[] = [];
+    for (let i = 0; i < emoji.length; i += EMOJI_PER_ROW) {
+        rows.push(emoji.slice(i, i + EMOJI_PER_ROW).join(''));
+    }
+    return [
+        'Strands Up',
+        `“${result.theme}”`,
+        ...rows,
+        `⏱ ${formatDuration(result.elapsedMs)} · ❌ ${result.wrongGuesses}`,
+    ].join('\n');
+};
@@ -0,0 +1,166 @@
+/**
+ * Shareable Puzzle Links
+ *
+ * This file encodes a Board into a compact, URL-safe string and decodes it again.
+ *
+ * Words are not stored directly: each placement is stored as a start cell plus one
+ * direction digit per step, and the words are re-read from the grid on decode.
+ * The payload is XOR-obfuscated so the answers aren't readable in the URL, and a
+ * checksum rejects links that were truncated or edited.
+ */
+
+import { Board, Position, WordPlacement } from '../types/game';
+import { DIRECTIONS } from './grid';
+import { createRandom, hashSeed } from './random';
+import { validateBoard } from './validation';
+
+const SHARE_FORMAT_VERSION = 1;
+const OBFUSCATION_KEY = 'strands-up-share';
+const SHARE_PARAM = 'puzzle';
+
+type SharePayload = [version: number, cols: number, letters: string, theme: string, paths: string[]];
+
+const encodePath = (path: Position[], cols: number): string =>
+    (path[0][0] * cols + path[0][1]).toString(36).padStart(2, '0') +
+    path.slice(1).map(([row, col], i) => {
+        const [prevRow, prevCol] = path[i];
+        const direction = DIRECTIONS.findIndex(([dr, dc]) => dr === row - prevRow && dc === col - prevCol);
+        if (direction === -1) {
+            throw new Error('Only boards with adjacent paths can be shared');
+        }
+        return direction;
+    }).join('');
+
+const decodePath = (code: string, cols: number): Position[] => {
+    if (!/^[0-9a-z]{2}[0-7]*$/.test(code)) {
+        throw new Error('The puzzle link contains an invalid path');
+    }
+    const start = parseInt(code.slice(0, 2), 36);
+    const path: Position[] = [[Math.floor(start / cols), start % cols]];
+    code.slice(2).split('').forEach((digit) => {
+        const [row, col] = path[path.length - 1];
+        const [dr, dc] = DIRECTIONS[Number(digit)];
+        path.push([row + dr, col + dc]);
+    });
+    return path;
+};
+
+/**
+ * XORs bytes with a fixed pseudo-random keystream (applying it twice restores the input)
+ */
+const obfuscate = (bytes: Uint8Array): Uint8Array => {
+    const random = createRandom(OBFUSCATION_KEY);
+    return bytes.map((byte) => byte ^ Math.floor(random() * 256));
+};
+
+const toBase64Url = (bytes: Uint8Array): string =>
+    btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (text: string): Uint8Array => {
+    const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+    return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+};
+
+/**
+ * Encodes a Board into a URL-safe string
+ *
+ * @param board - The board to share
+ * @returns The encoded puzzle
+ * @throws Error if a placement path has non-adjacent steps
+ */
+export const encodeBoard = (board: Board): string => {
+    const cols = board.grid[0].length;
+    const payload: SharePayload = [
+        SHARE_FORMAT_VERSION,
+        cols,
+        board.grid.map((row) => row.join('')).join(''),
+        board.theme,
+        [board.placementInfo.spangram, ...board.placementInfo.words].map(({ path }) => encodePath(path, cols)),
+    ];
+    const text = JSON.stringify(payload);
+    const checksum = hashSeed(text).toString(36).padStart(7, '0');
+    return checksum + toBase64Url(obfuscate(new TextEncoder().encode(text)));
+};
+
+/**
+ * Decodes a puzzle string back into a Board
+ *
+ * @param encoded - A string produced by encodeBoard
+ * @returns The decoded Board
+ * @throws Error if the string is malformed, was tampered with or decodes to an invalid board
+ */
+export const decodeBoard = (encoded: string): Board => {
+    const malformed = new Error('The puzzle link is malformed or incomplete');
+
+    let text: string;
+    try {
+        text = new TextDecoder('utf-8', { fatal: true }).decode(obfuscate(fromBase64Url(encoded.slice(7))));
+    } catch {
+        throw malformed;
+    }
+    if (hashSeed(text).toString(36).padStart(7, '0') !== encoded.slice(0, 7)) {
+        throw new Error('The puzzle link has been modified or corrupted');
+    }
+
+    let payload: unknown;
+    try {
+        payload = JSON.parse(text);
+    } catch {
+        throw malformed;
+    }
+    if (
+        !Array.isArray(payload) ||
+        payload.length !== 5 ||
+        payload[0] !== SHARE_FORMAT_VERSION ||
+        !Number.isInteger(payload[1]) || payload[1] <= 0 ||
+        typeof payload[2] !== 'string' || payload[2].length % payload[1] !== 0 ||
+        typeof payload[3] !== 'string' ||
+        !Array.isArray(payload[4]) || payload[4].length === 0 ||
+        payload[4].some((code: unknown) => typeof code !== 'string')
+    ) {
+        throw malformed;
+    }
+
+    const [, cols, letters, theme, codes] = payload as SharePayload;
+    const grid: string[][] = [];
+    for (let i = 0; i < letters.length; i += cols) {
+        grid.push(letters.slice(i, i + cols).split(''));
+    }
+
+    const placements: WordPlacement[] = codes.map((code) => {
+        const path = decodePath(code, cols);
+        return { word: path.map(([row, col]) => grid[row]?.[col] ?? '').join(''), path };
+    });
+    const [spangram, ...words] = placements;
+
+    const board: Board = {
+        grid,
+        words: words.map(({ word }) => word),
+        spangram: spangram.word,
+        theme,
+        placementInfo: { spangram, words },
+    };
+
+    const { valid, errors } = validateBoard(board);
+    if (!valid) {
+        throw new Error(`The shared puzzle is invalid: ${errors[0].message}`);
+    }
+    return board;
+};
+
+/**
+ * Builds a link that opens the given board
+ */
+export const buildShareUrl = (board: Board, base: string = window.location.href): string => {
+    const url = new URL(base);
+    url.search = '';
+    url.hash = `${SHARE_PARAM}=${encodeBoard(board)}`;
+    return url.toString();
+};
+
+/**
+ * Reads the encoded puzzle from a URL's hash or query string, if there is one
+ */
+export const getSharedPuzzleCode = (location: Pick<Location, 'hash' | 'search'>): string | null =>
+    new URLSearchParams(location.hash.slice(1)).get(SHARE_PARAM) ??
+    new URLSearchParams(location.search).get(SHARE_PARAM);
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { findWordPaths, INTERACTIVE_SOLVER_OPTIONS, reroutePlacements, solvePuzzle } from './solver';
+import { Position } from '../types/game';
+
+/** An 8x6 grid of one letter, where a word that never completes has millions of partial paths */
+const repeatedGrid = Array.from({ length: 8 }, () => Array<string>(6).fill('A'));
+
+describe('findWordPaths', () => {
+    it('lists every path that spells a word', () => {
+        const grid = [
+            ['C', 'A'],
+            ['A', 'T'],
+        ];
+        expect(findWordPaths(grid, 'cat')).toEqual([
+            [[0, 0], [0, 1], [1, 1]],
+            [[0, 0], [1, 0], [1, 1]],
+        ]);
+    });
+
+    it('stops once the step budget runs out', () => {
+        const budget = { remaining: 1_000 };
+        expect(findWordPaths(repeatedGrid, 'AAAAAAAAAAAC', 100, budget)).toEqual([]);
+        expect(budget.remaining).toBe(0);
+    });
+});
+
+describe('solvePuzzle', () => {
+    it('gives up on a grid of repeated letters within its step budget', () => {
+        const result = solvePuzzle(repeatedGrid, 'AAAAAAAAAAAC', ['AAAA'], INTERACTIVE_SOLVER_OPTIONS);
+        expect(result.isComplete).toBe(false);
+        expect(result.tilings).toEqual([]);
+    });
+});
+
+describe('reroutePlacements', () => {
+    it('returns promptly, with no placements, on a grid of repeated letters', () => {
+        const row = (index: number, length = 6): Position[] =>
+            Array.from({ length }, (_, col): Position => [index, col]);
+        const placementInfo = {
+            spangram: { word: 'AAAAAAAAAAAC', path: [...row(0), ...row(1)] },
+            words: [{ word: 'AAAA', path: row(2, 4) }],
+        };
+        // Crosses the stored spangram, so the rest of the grid has to be searched again
+        const fixedPaths = { AAAA: [[1, 0], [2, 1], [3, 2], [4, 3]] as Position[] };
+        expect(reroutePlacements(repeatedGrid, placementInfo, fixedPaths, INTERACTIVE_SOLVER_OPTIONS)).toBeNull();
+    });
+});
@@ -0,0 +1,292 @@
+/**
+ * Puzzle Solver
+ *
+ * This file contains a solver that, given a grid and its words, lists every path that
+ * spells each word and every way of tiling the whole grid with one path per word.
+ * A puzzle with more than one tiling is ambiguous: a player can trace a right word along
+ * a path that differs from the board's placementInfo.
+ *
+ * Both searches draw on one budget of steps, so a pathological grid (e.g. all one letter)
+ * can't hang the UI; results then say they are incomplete.
+ */
+
+import { Board, PlacementInfo, Position, WordPlacement } from '../types/game';
+import { cellKey, DIRECTIONS } from './grid';
+import { spansEdgeToEdge } from './validation';
+
+export interface SolverOptions {
+    /** Stop listing paths for a word after this many */
+    maxPathsPerWord?: number;
+    /** Stop after finding this many tilings */
+    maxTilings?: number;
+    /** Search steps allowed in all, shared by the path and tiling searches */
+    maxSteps?: number;
+    /** Words known to take a given path (e.g. words the player already found) */
+    fixedPaths?: Record<string, Position[]>;
+}
+
+export interface SolveResult {
+    /** Every path found for each word */
+    paths: Record<string, Position[][]>;
+    /** Complete, non-overlapping tilings; the spangram always spans two opposite edges */
+    tilings: PlacementInfo[];
+    /** False if a cap was hit, so more paths or tilings may exist */
+    isComplete: boolean;
+}
+
+export interface PuzzleAnalysis {
+    /** Number of paths found for each word */
+    pathCounts: Record<string, number>;
+    tilingCount: number;
+    isAmbiguous: boolean;
+    /** Words that some other tiling places along a different path */
+    alternateWords: string[];
+    isComplete: boolean;
+}
+
+const DEFAULT_MAX_PATHS_PER_WORD = 500;
+const DEFAULT_MAX_TILINGS = 50;
+const DEFAULT_MAX_STEPS = 200_000;
+
+/**
+ * Search steps left; one budget is shared by every search of a solve
+ */
+export interface StepBudget {
+    remaining: number;
+}
+
+/**
+ * Much lower caps for searches that run on the UI thread while the player waits (e.g.
+ * judging a rerouted word), which stay within a few milliseconds on any grid
+ */
+export const INTERACTIVE_SOLVER_OPTIONS: SolverOptions = {
+    maxPathsPerWord: 100,
+    maxSteps: 5_000,
+};
+
+/**
+ * Lists the paths of adjacent, distinct cells that spell a word
+ *
+ * @param grid - The letter grid
+ * @param word - The word to trace (case-insensitive)
+ * @param maxPaths - Stop after this many paths
+ * @param budget - Steps the search may take (one per letter matched); it stops early,
+ * possibly missing paths, once they run out
+ * @returns The paths found, in grid order
+ */
+export const findWordPaths = (
+    grid: string[][],
+    word: string,
+    maxPaths = DEFAULT_MAX_PATHS_PER_WORD,
+    budget: StepBudget = { remaining: DEFAULT_MAX_STEPS }
+): Position[][] => {
+    const target = word.toUpperCase();
+    const rows = grid.length;
+    const cols = grid[0]?.length ?? 0;
+    const visited = grid.map((row) => row.map(() => false));
+    const paths: Position[][] = [];
+    const path: Position[] = [];
+
+    const extend = (row: number, col: number) => {
+        if (paths.length >= maxPaths || budget.remaining <= 0) return;
+        if (row < 0 || row >= rows || col < 0 || col >= cols || visited[row][col]) return;
+        if (grid[row][col].toUpperCase() !== target[path.length]) return;
+        budget.remaining--;
+
+        visited[row][col] = true;
+        path.push([row, col]);
+        if (path.length === target.length) {
+            paths.push([...path]);
+        } else {
+            DIRECTIONS.forEach(([dr, dc]) => extend(row + dr, col + dc));
+        }
+        path.pop();
+        visited[row][col] = false;
+    };
+
+    if (target.length > 0) {
+        for (let row = 0; row < rows; row++) {
+            for (let col = 0; col < cols; col++) {
+                extend(row, col);
+            }
+        }
+    }
+    return paths;
+};
+
+/**
+ * Finds every path for each word and every tiling of the grid
+ *
+ * The search is exact cover: it repeatedly takes the uncovered cell with the fewest
+ * candidate paths and tries each of them, so dead ends are found early.
+ *
+ * @param grid - The letter grid
+ * @param spangram - The spangram, whose path must touch two opposite edges
+ * @param words - The theme words
+ * @param options - Caps on the search
+ */
+export const solvePuzzle = (
+    grid: string[][],
+    spangram: string,
+    words: string[],
+    options: SolverOptions = {}
+): SolveResult => {
+    const {
+        maxPathsPerWord = DEFAULT_MAX_PATHS_PER_WORD,
+        maxTilings = DEFAULT_MAX_TILINGS,
+        maxSteps = DEFAULT_MAX_STEPS,
+        fixedPaths = {},
+    } = options;
+    const rows = grid.length;
+    const cols = grid[0]?.length ?? 0;
+    const entries = [spangram, ...words];
+
+    let isComplete = true;
+    const budget: StepBudget = { remaining: maxSteps };
+    const paths: Record<string, Position[][]> = {};
+    const candidates = entries.map((word, i) => {
+        const found = findWordPaths(grid, word, maxPathsPerWord, budget);
+        if (found.length >= maxPathsPerWord || budget.remaining <= 0) isComplete = false;
+        paths[word] = found;
+        const allowed = word in fixedPaths ? [fixedPaths[word]] : found;
+        return i === 0 ? allowed.filter((path) => spansEdgeToEdge(path, rows, cols)) : allowed;
+    });
+
+    // For each cell, the (word, path) pairs that cover it
+    const cellCandidates: [number, number][][] = Array.from({ length: rows * cols }, () => []);
+    candidates.forEach((wordPaths, wordIndex) => {
+        wordPaths.forEach((path, pathIndex) => {
+            path.forEach(([row, col]) => cellCandidates[row * cols + col].push([wordIndex, pathIndex]));
+        });
+    });
+
+    const covered = new Array<boolean>(rows * cols).fill(false);
+    const chosen = new Array<number>(entries.length).fill(-1);
+    const tilings: PlacementInfo[] = [];
+
+    const fits = (wordIndex: number, pathIndex: number): boolean =>
+        chosen[wordIndex] === -1 &&
+        candidates[wordIndex][pathIndex].every(([row, col]) => !covered[row * cols + col]);
+
+    const setPath = (wordIndex: number, pathIndex: number, value: boolean) => {
+        candidates[wordIndex][pathIndex].forEach(([row, col]) => {
+            covered[row * cols + col] = value;
+        });
+        chosen[wordIndex] = value ? pathIndex : -1;
+    };
+
+    const search = () => {
+        if (tilings.length >= maxTilings || budget.remaining <= 0) {
+            isComplete = false;
+            return;
+        }
+        budget.remaining--;
+
+        let bestCell = -1;
+        let bestOptions: [number, number][] = [];
+        for (let cell = 0; cell < covered.length; cell++) {
+            if (covered[cell]) continue;
+            const cellOptions = cellCandidates[cell].filter(([wordIndex, pathIndex]) => fits(wordIndex, pathIndex));
+            if (bestCell === -1 || cellOptions.length < bestOptions.length) {
+                bestCell = cell;
+                bestOptions = cellOptions;
+                if (cellOptions.length === 0) return;
+            }
+        }
+
+        if (bestCell === -1) {
+            if (chosen.every((pathIndex) => pathIndex !== -1)) {
+                tilings.push({
+                    spangram: { word: spangram, path: candidates[0][chosen[0]] },
+                    words: words.map((word, i) => ({ word, path: candidates[i + 1][chosen[i + 1]] })),
+                });
+            }
+            return;
+        }
+
+        bestOptions.forEach(([wordIndex, pathIndex]) => {
+            setPath(wordIndex, pathIndex, true);
+            search();
+            setPath(wordIndex, pathIndex, false);
+        });
+    };
+
+    search();
+    return { paths, tilings, isComplete };
+};
+
+const samePath = (a: Position[], b: Position[]): boolean =>
+    a.length === b.length && a.every(([row, col], i) => row === b[i][0] && col === b[i][1]);
+
+/**
+ * Re-routes a board's placements so that some words take the given paths
+ *
+ * Used when a player traces a theme word along a different route than the stored one:
+ * the route is only acceptable if the remaining words can still tile the remaining cells.
+ * Stored paths are kept whenever they don't clash with the new routes.
+ *
+ * @param grid - The letter grid
+ * @param placementInfo - The current placements
+ * @param fixedPaths - Paths the placements must use, keyed by word
+ * @param options - Caps on the search
+ * @returns Updated placements, or null if no tiling uses the fixed paths
+ */
+export const reroutePlacements = (
+    grid: string[][],
+    placementInfo: PlacementInfo,
+    fixedPaths: Record<string, Position[]>,
+    options: SolverOptions = {}
+): PlacementInfo | null => {
+    const fixedCells = new Set(Object.values(fixedPaths).flat().map(cellKey));
+    const reroute = ({ word, path }: WordPlacement): WordPlacement => ({ word, path: fixedPaths[word] ?? path });
+    const isClear = ({ word, path }: WordPlacement) =>
+        word in fixedPaths || path.every((cell) => !fixedCells.has(cellKey(cell)));
+
+    // If the other stored paths avoid the new routes, those routes reuse the same cells
+    if ([placementInfo.spangram, ...placementInfo.words].every(isClear)) {
+        const rows = grid.length;
+        const cols = grid[0]?.length ?? 0;
+        const spangram = reroute(placementInfo.spangram);
+        return spansEdgeToEdge(spangram.path, rows, cols)
+            ? { spangram, words: placementInfo.words.map(reroute) }
+            : null;
+    }
+
+    const { tilings } = solvePuzzle(
+        grid,
+        placementInfo.spangram.word,
+        placementInfo.words.map(({ word }) => word),
+        { ...options, fixedPaths, maxTilings: 1 }
+    );
+    return tilings[0] ?? null;
+};
+
+/**
+ * Checks whether a board can be solved in more than one way
+ *
+ * @param board - The board to analyze
+ * @param options - Caps on the search
+ * @returns Path counts, tiling count and the words that have alternate placements
+ */
+export const analyzePuzzle = (board: Board, options: SolverOptions = {}): PuzzleAnalysis => {
+    const { paths, tilings, isComplete } = solvePuzzle(board.grid, board.spangram, board.words, options);
+    const intended = [board.placementInfo.spangram, ...board.placementInfo.words];
+
+    const alternateWords = intended
+        .filter(({ word, path }) =>
+            tilings.some((tiling) =>
+                [tiling.spangram, ...tiling.words].some((placement) =>
+                    placement.word === word && !samePath(placement.path, path)
+                )
+            )
+        )
+        .map(({ word }) => word);
+
+    return {
+        pathCounts: Object.fromEntries(Object.entries(paths).map(([word, wordPaths]) => [word, wordPaths.length])),
+        tilingCount: tilings.length,
+        isAmbiguous: tilings.length > 1,
+        alternateWords,
+        isComplete,
+    };
+};
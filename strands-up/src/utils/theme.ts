@@ -0,0 +1,251 @@
+/**
+ * Theme
+ *
+ * This file contains the design tokens every component colours itself with, and the
+ * palettes that fill them in: light, dark and a high-contrast palette whose cell colours
+ * come from the Okabe-Ito set, so found words, the spangram and the selection stay apart
+ * for colour-blind players. Components refer to tokens through `colours` (CSS custom
+ * properties), so switching palettes only swaps the variable values on the page root.
+ * Each palette is checked against the WCAG contrast ratios listed in CONTRAST_REQUIREMENTS.
+ */
+
+export type ThemeName = 'light' | 'dark' | 'high-contrast';
+
+export const THEME_LABELS: Record<ThemeName, string> = {
+    light: 'Light',
+    dark: 'Dark',
+    'high-contrast': 'High contrast',
+};
+
+export interface ThemeTokens {
+    background: string;
+    /** Buttons and inputs without a colour of their own */
+    surface: string;
+    text: string;
+    /** Secondary text: labels, counts, details */
+    textMuted: string;
+    /** Input borders and the outline of empty editor cells */
+    border: string;
+    /** Panel borders */
+    borderSubtle: string;
+    /** Background of progress bars */
+    track: string;
+    /** Filled buttons and button outlines */
+    accent: string;
+    /** Text on `accent` */
+    onAccent: string;
+    /** Links and outlined button text */
+    accentText: string;
+    /** Highlighted rows and info messages */
+    accentSurface: string;
+    /** Keyboard focus and selected-day outlines */
+    focus: string;
+    success: string;
+    /** Success messages, results and solved days */
+    successSurface: string;
+    danger: string;
+    warning: string;
+    /** Started days */
+    warningSurface: string;
+    /** Hint outlines and difficulty bars */
+    warningBorder: string;
+    /** Unfound words in the word list */
+    neutralSurface: string;
+    /** Letters in the grid */
+    cellText: string;
+    /** Letter numbers of a fully revealed hint */
+    hintText: string;
+    /** Bubble of the current selection */
+    selection: string;
+    /** Bubble of a found theme word */
+    foundWord: string;
+    /** Bubble of the found spangram */
+    spangram: string;
+}
+
+export const THEMES: Record<ThemeName, ThemeTokens> = {
+    light: {
+        background: '#FFFFFF',
+        surface: '#F7FAFC',
+        text: '#2D3748',
+        textMuted: '#4A5568',
+        border: '#A0AEC0',
+        borderSubtle: '#E2E8F0',
+        track: '#EDF2F7',
+        accent: '#2B6CB0',
+        onAccent: '#FFFFFF',
+        accentText: '#2B6CB0',
+        accentSurface: 'rgba(66, 153, 225, 0.1)',
+        focus: '#3182CE',
+        success: '#276749',
+        successSurface: 'rgba(72, 187, 120, 0.2)',
+        danger: '#C53030',
+        warning: '#975A16',
+        warningSurface: 'rgba(236, 201, 75, 0.3)',
+        warningBorder: '#B7791F',
+        neutralSurface: 'rgba(160, 174, 192, 0.1)',
+        cellText: '#1A202C',
+        hintText: '#744210',
+        selection: 'rgba(49, 130, 206, 0.2)',
+        foundWord: 'rgba(72, 187, 120, 0.35)',
+        spangram: 'rgba(236, 201, 75, 0.6)',
+    },
+    dark: {
+        background: '#1A202C',
+        surface: '#2D3748',
+        text: '#E2E8F0',
+        textMuted: '#A0AEC0',
+        border: '#718096',
+        borderSubtle: '#4A5568',
+        track: '#2D3748',
+        accent: '#63B3ED',
+        onAccent: '#1A202C',
+        accentText: '#90CDF4',
+        accentSurface: 'rgba(99, 179, 237, 0.15)',
+        focus: '#63B3ED',
+        success: '#68D391',
+        successSurface: 'rgba(72, 187, 120, 0.2)',
+        danger: '#FC8181',
+        warning: '#F6AD55',
+        warningSurface: 'rgba(236, 201, 75, 0.25)',
+        warningBorder: '#D69E2E',
+        neutralSurface: 'rgba(160, 174, 192, 0.15)',
+        cellText: '#F7FAFC',
+        hintText: '#FBD38D',
+        selection: 'rgba(99, 179, 237, 0.35)',
+        foundWord: 'rgba(72, 187, 120, 0.4)',
+        spangram: 'rgba(214, 158, 46, 0.5)',
+    },
+    'high-contrast': {
+        background: '#FFFFFF',
+        surface: '#FFFFFF',
+        text: '#000000',
+        textMuted: '#222222',
+        border: '#000000',
+        borderSubtle: '#000000',
+        track: '#DDDDDD',
+        accent: '#005A8C',
+        onAccent: '#FFFFFF',
+        accentText: '#004A73',
+        accentSurface: '#E5F1F8',
+        focus: '#000000',
+        success: '#00563C',
+        successSurface: '#D5F0E6',
+        danger: '#A3200D',
+        warning: '#6B3E00',
+        warningSurface: '#FBE8C2',
+        warningBorder: '#000000',
+        neutralSurface: '#F0F0F0',
+        cellText: '#000000',
+        hintText: '#000000',
+        selection: '#CC79A7',
+        foundWord: '#56B4E9',
+        spangram: '#E69F00',
+    },
+};
+
+const toVariableName = (token: string) => `--colour-${token.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`)}`;
+
+/**
+ * Token values for inline styles, e.g. `color: colours.textMuted`
+ */
+export const colours = Object.fromEntries(
+    Object.keys(THEMES.light).map((token) => [token, `var(${toVariableName(token)})`])
+) as Record<keyof ThemeTokens, string>;
+
+/**
+ * Lists the CSS custom properties that apply a palette
+ */
+export const themeVariables = (tokens: ThemeTokens): [string, string][] =>
+    Object.entries(tokens).map(([token, value]) => [toVariableName(token), value]);
+
+type Rgba = [number, number, number, number];
+
+/**
+ * Parses a `#RRGGBB` or `rgba(r, g, b, a)` colour
+ */
+const parseColour = (colour: string): Rgba => {
+    const hex = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(colour);
+    if (hex) return [parseInt(hex[1], 16), parseInt(hex[2], 16), parseInt(hex[3], 16), 1];
+    const rgba = /^rgba?\(([^)]+)\)$/.exec(colour);
+    if (rgba) {
+        const [r, g, b, a = 1] = rgba[1].split(',').map(Number);
+        return [r, g, b, a];
+    }
+    throw new Error(`Unsupported colour: ${colour}`);
+};
+
+/**
+ * Blends a (possibly translucent) colour over an opaque one
+ */
+const composite = ([r, g, b, a]: Rgba, [baseR, baseG, baseB]: Rgba): Rgba => [
+    r * a + baseR * (1 - a),
+    g * a + baseG * (1 - a),
+    b * a + baseB * (1 - a),
+    1,
+];
+
+const relativeLuminance = ([r, g, b]: Rgba): number => {
+    const [linearR, linearG, linearB] = [r, g, b].map((channel) => {
+        const value = channel / 255;
+        return value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+    });
+    return 0.2126 * linearR + 0.7152 * linearG + 0.0722 * linearB;
+};
+
+/**
+ * Computes the WCAG contrast ratio of a colour over a background
+ *
+ * @param foreground - The text or outline colour
+ * @param background - The colour behind it; translucent colours are laid over `base`
+ * @param base - The opaque colour underneath a translucent background
+ * @returns The ratio, from 1 (none) to 21 (black on white)
+ */
+export const contrastRatio = (foreground: string, background: string, base: string = '#FFFFFF'): number => {
+    const behind = composite(parseColour(background), parseColour(base));
+    const front = composite(parseColour(foreground), behind);
+    const [lighter, darker] = [relativeLuminance(front), relativeLuminance(behind)].sort((a, b) => b - a);
+    return (lighter + 0.05) / (darker + 0.05);
+};
+
+interface ContrastRequirement {
+    foreground: keyof ThemeTokens;
+    background: keyof ThemeTokens;
+    /** 4.5 for text, 3 for outlines and other non-text indicators (WCAG 2.1 AA) */
+    minimum: number;
+}
+
+/**
+ * Colour pairs that appear together, including the letters over every cell state
+ */
+export const CONTRAST_REQUIREMENTS: ContrastRequirement[] = [
+    { foreground: 'text', background: 'background', minimum: 4.5 },
+    { foreground: 'textMuted', background: 'background', minimum: 4.5 },
+    { foreground: 'accentText', background: 'background', minimum: 4.5 },
+    { foreground: 'accentText', background: 'accentSurface', minimum: 4.5 },
+    { foreground: 'onAccent', background: 'accent', minimum: 4.5 },
+    { foreground: 'success', background: 'background', minimum: 4.5 },
+    { foreground: 'success', background: 'successSurface', minimum: 4.5 },
+    { foreground: 'danger', background: 'background', minimum: 4.5 },
+    { foreground: 'warning', background: 'background', minimum: 4.5 },
+    { foreground: 'text', background: 'surface', minimum: 4.5 },
+    { foreground: 'text', background: 'neutralSurface', minimum: 4.5 },
+    { foreground: 'cellText', background: 'background', minimum: 4.5 },
+    { foreground: 'cellText', background: 'selection', minimum: 4.5 },
+    { foreground: 'cellText', background: 'foundWord', minimum: 4.5 },
+    { foreground: 'cellText', background: 'spangram', minimum: 4.5 },
+    { foreground: 'hintText', background: 'background', minimum: 4.5 },
+    { foreground: 'hintText', background: 'selection', minimum: 4.5 },
+    { foreground: 'accent', background: 'background', minimum: 3 },
+    { foreground: 'focus', background: 'background', minimum: 3 },
+    { foreground: 'warningBorder', background: 'background', minimum: 3 },
+];
+
+/**
+ * Lists the colour pairs of a palette that fall short of their contrast requirement
+ */
+export const findContrastIssues = (tokens: ThemeTokens): string[] =>
+    CONTRAST_REQUIREMENTS.flatMap(({ foreground, background, minimum }) => {
+        const ratio = contrastRatio(tokens[foreground], tokens[background], tokens.background);
+        return ratio < minimum ? [`${foreground} on ${background}: ${ratio.toFixed(2)} (needs ${minimum})`] : [];
+    });
@@ -0,0 +1,216 @@
+/**
+ * Board Validation
+ *
+ * This file contains checks for the internal consistency of a Board before it is played.
+ * Problems are returned as structured errors so the UI can explain why a board was rejected.
+ */
+
+import { Board, Position, WordPlacement } from '../types/game';
+import { cellKey, isAdjacent } from './grid';
+
+export type BoardErrorCode =
+    | 'EMPTY_GRID'
+    | 'RAGGED_GRID'
+    | 'INVALID_CELL'
+    | 'EMPTY_PATH'
+    | 'OUT_OF_BOUNDS'
+    | 'NOT_ADJACENT'
+    | 'MISSPELLED'
+    | 'OVERLAP'
+    | 'UNCOVERED_CELL'
+    | 'SPANGRAM_NOT_SPANNING'
+    | 'WORD_MISMATCH'
+    | 'MISSING_THEME';
+
+export interface BoardValidationError {
+    code: BoardErrorCode;
+    message: string;
+    word?: string;
+    position?: Position;
+}
+
+export interface BoardValidationResult {
+    valid: boolean;
+    errors: BoardValidationError[];
+}
+
+const positionLabel = ([row, col]: Position): string => `(${row}, ${col})`;
+
+/**
+ * Checks whether a path touches two opposite edges of a rows x cols grid
+ */
+export const spansEdgeToEdge = (path: Position[], rows: number, cols: number): boolean => {
+    const touchesRow = (row: number) => path.some(([r]) => r === row);
+    const touchesCol = (col: number) => path.some(([, c]) => c === col);
+    return (touchesRow(0) && touchesRow(rows - 1)) || (touchesCol(0) && touchesCol(cols - 1));
+};
+
+/**
+ * Validates the grid shape: non-empty, rectangular and one letter per cell
+ */
+const validateGrid = (grid: string[][]): BoardValidationError[] => {
+    if (grid.length === 0 || grid[0].length === 0) {
+        return [{ code: 'EMPTY_GRID', message: 'The grid has no cells' }];
+    }
+
+    const errors: BoardValidationError[] = [];
+    const cols = grid[0].length;
+    grid.forEach((row, r) => {
+        if (row.length !== cols) {
+            errors.push({
+                code: 'RAGGED_GRID',
+                message: `Row ${r} has ${row.length} cells but row 0 has ${cols}`,
+            });
+        }
+        row.forEach((cell, c) => {
+            if (typeof cell !== 'string' || !/^[a-z]$/i.test(cell)) {
+                errors.push({
+                    code: 'INVALID_CELL',
+                    message: `Cell ${positionLabel([r, c])} does not hold a single letter`,
+                    position: [r, c],
+                });
+            }
+        });
+    });
+    return errors;
+};
+
+/**
+ * Validates a single placement: in bounds, adjacent steps and correct spelling
+ */
+const validatePlacement = (grid: string[][], { word, path }: WordPlacement): BoardValidationError[] => {
+    if (path.length === 0) {
+        return [{ code: 'EMPTY_PATH', message: `"${word}" has no path`, word }];
+    }
+
+    const errors: BoardValidationError[] = [];
+    const outOfBounds = path.find(([row, col]) => grid[row]?.[col] === undefined);
+    if (outOfBounds) {
+        return [{
+            code: 'OUT_OF_BOUNDS',
+            message: `"${word}" leaves the grid at ${positionLabel(outOfBounds)}`,
+            word,
+            position: outOfBounds,
+        }];
+    }
+
+    path.forEach((pos, i) => {
+        if (i > 0 && !isAdjacent(path[i - 1], pos)) {
+            errors.push({
+                code: 'NOT_ADJACENT',
+                message: `"${word}" jumps from ${positionLabel(path[i - 1])} to ${positionLabel(pos)}`,
+                word,
+                position: pos,
+            });
+        }
+    });
+
+    const spelled = path.map(([row, col]) => grid[row][col]).join('');
+    if (spelled.toLowerCase() !== word.toLowerCase()) {
+        errors.push({
+            code: 'MISSPELLED',
+            message: `The path for "${word}" spells "${spelled}"`,
+            word,
+        });
+    }
+    return errors;
+};
+
+/**
+ * Validates that the word lists agree with the placements
+ */
+const validateWordLists = (board: Board): BoardValidationError[] => {
+    const errors: BoardValidationError[] = [];
+    const { placementInfo } = board;
+
+    if (board.spangram.toLowerCase() !== placementInfo.spangram.word.toLowerCase()) {
+        errors.push({
+            code: 'WORD_MISMATCH',
+            message: `Spangram "${board.spangram}" does not match its placement "${placementInfo.spangram.word}"`,
+            word: board.spangram,
+        });
+    }
+
+    const remaining = placementInfo.words.map(({ word }) => word.toLowerCase());
+    board.words.forEach((word) => {
+        const index = remaining.indexOf(word.toLowerCase());
+        if (index === -1) {
+            errors.push({ code: 'WORD_MISMATCH', message: `"${word}" has no placement`, word });
+        } else {
+            remaining.splice(index, 1);
+        }
+    });
+    remaining.forEach((word) => {
+        errors.push({ code: 'WORD_MISMATCH', message: `Placement "${word}" is not in the word list`, word });
+    });
+    return errors;
+};
+
+/**
+ * Validates a Board's internal consistency
+ *
+ * @param board - The board to check
+ * @returns The validation result with every problem found
+ */
+export const validateBoard = (board: Board): BoardValidationResult => {
+    const gridErrors = validateGrid(board.grid);
+    if (gridErrors.some(({ code }) => code === 'EMPTY_GRID' || code === 'RAGGED_GRID')) {
+        return { valid: false, errors: gridErrors };
+    }
+
+    const rows = board.grid.length;
+    const cols = board.grid[0].length;
+    const placements = [board.placementInfo.spangram, ...board.placementInfo.words];
+    const errors: BoardValidationError[] = [...gridErrors];
+    const owners = new Map<string, string>();
+
+    placements.forEach((placement) => {
+        const placementErrors = validatePlacement(board.grid, placement);
+        errors.push(...placementErrors);
+        if (placementErrors.some(({ code }) => code === 'OUT_OF_BOUNDS')) return;
+
+        placement.path.forEach((pos) => {
+            const key = cellKey(pos);
+            const owner = owners.get(key);
+            if (owner !== undefined) {
+                errors.push({
+                    code: 'OVERLAP',
+                    message: `"${placement.word}" and "${owner}" both use ${positionLabel(pos)}`,
+                    word: placement.word,
+                    position: pos,
+                });
+            } else {
+                owners.set(key, placement.word);
+            }
+        });
+    });
+
+    for (let row = 0; row < rows; row++) {
+        for (let col = 0; col < cols; col++) {
+            if (!owners.has(cellKey([row, col]))) {
+                errors.push({
+                    code: 'UNCOVERED_CELL',
+                    message: `Cell ${positionLabel([row, col])} is not part of any word`,
+                    position: [row, col],
+                });
+            }
+        }
+    }
+
+    const { spangram } = board.placementInfo;
+    if (!spansEdgeToEdge(spangram.path, rows, cols)) {
+        errors.push({
+            code: 'SPANGRAM_NOT_SPANNING',
+            message: `Spangram "${spangram.word}" does not touch two opposite edges`,
+            word: spangram.word,
+        });
+    }
+
+    errors.push(...validateWordLists(board));
+
+    if (!board.theme.trim()) {
+        errors.push({ code: 'MISSING_THEME', message: 'The puzzle has no theme' });
+    }
+
+    return { valid: errors.length === 0, errors };
+};
@@ -1 +1,12 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+    /** Base URL of the game backend, e.g. http://localhost:8000/api/game */
+    readonly VITE_API_URL?: string;
+    /** WebSocket URL of the multiplayer relay server, e.g. ws://localhost:8787 */
+    readonly VITE_RELAY_URL?: string;
+}
+
+interface ImportMeta {
+    readonly env: ImportMetaEnv;
+}
@@ -5,6 +5,7 @@
  * - Base URL for assets
  * - React plugin
  * - Build output configuration
+ * - Tests (Vitest), which run in jsdom so components can be rendered
  */
 declare const _default: import("vite").UserConfig;
 export default _default;
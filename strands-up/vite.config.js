@@ -5,8 +5,9 @@
  * - Base URL for assets
  * - React plugin
  * - Build output configuration
+ * - Tests (Vitest), which run in jsdom so components can be rendered
  */
-import { defineConfig } from 'vite';
+import { defineConfig } from 'vitest/config';
 import react from '@vitejs/plugin-react';
 // https://vitejs.dev/config/
 export default defineConfig({
@@ -23,4 +24,8 @@ export default defineConfig({
             }
         }
     },
+    test: {
+        environment: 'jsdom',
+        include: ['src/**/*.test.{ts,tsx}'],
+    },
 });
@@ -5,9 +5,10 @@
  * - Base URL for assets
  * - React plugin
  * - Build output configuration
+ * - Tests (Vitest), which run in jsdom so components can be rendered
  */
 
-import { defineConfig } from 'vite'
+import { defineConfig } from 'vitest/config'
 import react from '@vitejs/plugin-react'
 
 // https://vitejs.dev/config/
@@ -25,4 +26,8 @@ export default defineConfig({
       }
     }
   },
+  test: {
+    environment: 'jsdom',
+    include: ['src/**/*.test.{ts,tsx}'],
+  },
 })